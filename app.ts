@@ -1,95 +1,31 @@
-import { defineStore } from "@david/service-store";
-import {
-  LruTestResultArtifactStore,
-  RealTestResultsDownloader,
-  type TestResultArtifactStore,
-  type TestResultsDownloader,
-} from "./lib/test-results-downloader.ts";
-import { RealRunsFetcher, type RunsFetcher } from "./lib/runs-fetcher.ts";
-import {
-  type GitHubApiClient,
-  RealGitHubApiClient,
-} from "./lib/github-api-client.ts";
-import { ConfigProvider } from "./lib/config.ts";
-import { LoggerFactory } from "./lib/logger.ts";
-import { InsightsPageController } from "./routes/insights.tsx";
-import { HomePageController } from "./routes/index.tsx";
-import { RunPageController } from "./routes/results/[runId].tsx";
-import { type FileFetcher, RealFileFetcher } from "./lib/file-fetcher.ts";
-import {
-  type ArtifactParser,
-  ZipArtifactParser,
-} from "./lib/artifact-parser.ts";
 import { App, staticFiles } from "fresh";
+import { type AppStore, appStore, createRequestStore } from "./services.ts";
 
 export interface AppState {
   store: AppStore;
 }
 
-export type AppStore = ReturnType<typeof createRequestStore>;
-
-// services that live for the duration of the application
-const appStore = defineStore()
-  .add("config", () => new ConfigProvider())
-  .add("loggerFactory", () => new LoggerFactory())
-  .add("artifactParser", (): ArtifactParser => {
-    return new ZipArtifactParser();
-  })
-  .add("testResultArtifactStore", (): TestResultArtifactStore => {
-    return new LruTestResultArtifactStore();
-  })
-  .add("fileFetcher", (): FileFetcher => {
-    return new RealFileFetcher();
-  })
-  .add("githubClient", (store): GitHubApiClient => {
-    return new RealGitHubApiClient(
-      store.get("fileFetcher"),
-      store.get("config").githubToken,
-    );
-  })
-  .add("testResultsDownloader", (store): TestResultsDownloader => {
-    return new RealTestResultsDownloader(
-      store.get("artifactParser"),
-      store.get("githubClient"),
-      store.get("testResultArtifactStore"),
-    );
-  })
-  .finalize();
+export const app = new App<AppState>();
 
-function createRequestStore() {
-  // services that live for the duration of a request
-  return appStore.createChild()
-    .add("logger", (store) => {
-      return store.get("loggerFactory").getRequestLogger();
-    })
-    .add("runsFetcher", (store): RunsFetcher => {
-      return new RealRunsFetcher(store.get("githubClient"));
-    })
-    .add("controller.homePage", (store) => {
-      return new HomePageController(store.get("runsFetcher"));
-    })
-    .add("controller.insights", (store) => {
-      return new InsightsPageController(
-        store.get("logger"),
-        store.get("githubClient"),
-        store.get("testResultsDownloader"),
-      );
-    })
-    .add("controller.runPage", (store) => {
-      return new RunPageController(
-        store.get("githubClient"),
-        store.get("testResultsDownloader"),
-      );
-    })
-    .finalize();
+const prefetchIntervalMs = appStore.get("config").prefetchIntervalMs;
+if (prefetchIntervalMs != null) {
+  appStore.get("runPrefetcher").start(prefetchIntervalMs);
 }
 
-export const app = new App<AppState>();
-
 app
   .use(staticFiles())
   .use(async (ctx) => {
-    using scopedStore = createRequestStore();
+    // routes under /:owner/:repo are scoped to that repository while
+    // everything else uses the default one
+    const config = appStore.get("config");
+    const { owner, repo } = ctx.params;
+    const repository = owner != null && repo != null
+      ? config.findRepository(owner, repo)
+      : config.defaultRepository;
+    if (repository == null) {
+      return new Response("Repository not configured", { status: 404 });
+    }
+    using scopedStore = createRequestStore(repository, ctx.req.signal);
     ctx.state.store = scopedStore;
     return await ctx.next();
   })
@@ -144,6 +144,143 @@ Deno.test("parse artifact with flaky tests", async () => {
   assertEquals(result.tests[1].ignored, true);
 });
 
+Deno.test("parse artifact with invalid test entries", async () => {
+  const parser = new ZipArtifactParser();
+
+  const jsonContent = JSON.stringify({
+    tests: [
+      { name: "valid", path: "test/valid.ts", duration: 10 },
+      { name: "invalid", path: "test/invalid.ts", duration: "10" },
+    ],
+  });
+  const zipBlob = await createZipBlob([
+    { filename: "results.json", content: jsonContent },
+  ]);
+
+  const result = await parser.parse("test-results-linux.json", zipBlob);
+
+  assertEquals(result, {
+    name: "linux",
+    tests: [{ name: "valid", path: "test/valid.ts", duration: 10 }],
+    warnings: [{
+      path: "/tests/1/duration",
+      message: "must be a non-negative number",
+    }],
+    files: [{ fileName: "results.json", testCount: 1 }],
+  });
+});
+
+Deno.test("parse artifact with a results file per shard", async () => {
+  const parser = new ZipArtifactParser();
+
+  const zipBlob = await createZipBlob([
+    {
+      filename: "shard-1.json",
+      content: JSON.stringify({
+        tests: [
+          { name: "test1", path: "test/a.ts", duration: 10 },
+          { name: "invalid", path: 1 },
+        ],
+      }),
+    },
+    { filename: "notes.txt", content: "not results" },
+    {
+      filename: "shard-2/results.xml",
+      content: `<testsuite name="test/b.ts">
+  <testcase name="test2" time="0.02"><failure/></testcase>
+</testsuite>`,
+    },
+  ]);
+
+  const result = await parser.parse("test-results-linux.json", zipBlob);
+
+  assertEquals(result, {
+    name: "linux",
+    tests: [
+      {
+        name: "test1",
+        path: "test/a.ts",
+        duration: 10,
+        sourceFile: "shard-1.json",
+      },
+      {
+        name: "test2",
+        path: "test/b.ts",
+        duration: 20,
+        failed: true,
+        sourceFile: "shard-2/results.xml",
+      },
+    ],
+    warnings: [{
+      path: "/tests/1/path",
+      message: "must be a string",
+      sourceFile: "shard-1.json",
+    }],
+    files: [
+      { fileName: "shard-1.json", testCount: 1 },
+      { fileName: "shard-2/results.xml", testCount: 1 },
+    ],
+  });
+});
+
+Deno.test("skip json files that don't contain test results", async () => {
+  const parser = new ZipArtifactParser();
+
+  const zipBlob = await createZipBlob([
+    { filename: "package.json", content: JSON.stringify({ name: "app" }) },
+    {
+      filename: "results.json",
+      content: JSON.stringify({ tests: [{ name: "test1", path: "a.ts" }] }),
+    },
+    { filename: "coverage.xml", content: "<coverage></coverage>" },
+  ]);
+
+  const result = await parser.parse("test-results-linux.json", zipBlob);
+
+  assertEquals(result, {
+    name: "linux",
+    tests: [{ name: "test1", path: "a.ts", sourceFile: "results.json" }],
+    files: [
+      {
+        fileName: "package.json",
+        testCount: 0,
+        error:
+          '"test-results-linux.json" does not contain test results: /tests must be an array',
+      },
+      { fileName: "results.json", testCount: 1 },
+      {
+        fileName: "coverage.xml",
+        testCount: 0,
+        error:
+          "Expected a <testsuites> or <testsuite> root element, found <coverage>",
+      },
+    ],
+  });
+});
+
+Deno.test("limit the warnings of all the files in an artifact", async () => {
+  const parser = new ZipArtifactParser();
+
+  const zipBlob = await createZipBlob([
+    {
+      filename: "shard-1.json",
+      content: JSON.stringify({ tests: new Array(60).fill(null) }),
+    },
+    {
+      filename: "shard-2.json",
+      content: JSON.stringify({ tests: new Array(30).fill(null) }),
+    },
+  ]);
+
+  const result = await parser.parse("test-results-linux.json", zipBlob);
+
+  assertEquals(result.warnings?.length, 51);
+  assertEquals(result.warnings?.[50], {
+    path: "/tests",
+    message: "40 more warnings omitted",
+  });
+});
+
 Deno.test("parse artifact with multiple files (prefers JSON)", async () => {
   const parser = new ZipArtifactParser();
 
@@ -168,18 +305,62 @@ Deno.test("parse artifact with multiple files (prefers JSON)", async () => {
   assertEquals(result.tests[0].name, "correct test");
 });
 
-Deno.test("throw error when no JSON file found", async () => {
+Deno.test("parse artifact with JUnit XML file", async () => {
+  const parser = new ZipArtifactParser();
+
+  const zipBlob = await createZipBlob([
+    {
+      filename: "test-results-linux.xml",
+      content: `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="./test/test1.ts" tests="2">
+    <testcase name="test1" classname="./test/test1.ts" time="0.1"/>
+    <testcase name="test2" classname="./test/test1.ts" time="0.2">
+      <failure message="failed">assertion error</failure>
+    </testcase>
+  </testsuite>
+</testsuites>`,
+    },
+  ]);
+
+  const result = await parser.parse("test-results-linux.xml", zipBlob);
+
+  assertEquals(result, {
+    name: "linux",
+    tests: [
+      { name: "test1", path: "./test/test1.ts", duration: 100 },
+      { name: "test2", path: "./test/test1.ts", duration: 200, failed: true },
+    ],
+    files: [{ fileName: "test-results-linux.xml", testCount: 2 }],
+  });
+});
+
+Deno.test("throw error when XML file isn't a JUnit report", async () => {
   const parser = new ZipArtifactParser();
 
   const zipBlob = await createZipBlob([
-    { filename: "readme.txt", content: "Not a JSON file" },
     { filename: "data.xml", content: "<xml></xml>" },
   ]);
 
+  await assertRejects(
+    () => parser.parse("test-results-other", zipBlob),
+    Error,
+    "Expected a <testsuites> or <testsuite> root element, found <xml>",
+  );
+});
+
+Deno.test("throw error when no test results file found", async () => {
+  const parser = new ZipArtifactParser();
+
+  const zipBlob = await createZipBlob([
+    { filename: "readme.txt", content: "Not a JSON file" },
+    { filename: "data.csv", content: "name,duration" },
+  ]);
+
   await assertRejects(
     () => parser.parse("test-results-empty", zipBlob),
     Error,
-    'No JSON file found in artifact "test-results-empty"',
+    'No test results file found in artifact "test-results-empty"',
   );
 });
 
@@ -198,7 +379,7 @@ Deno.test("throw error when zip only contains directories", async () => {
   await assertRejects(
     () => parser.parse("test-results-dirs-only", zipBlob),
     Error,
-    'No JSON file found in artifact "test-results-dirs-only"',
+    'No test results file found in artifact "test-results-dirs-only"',
   );
 });
 
@@ -1,44 +1,176 @@
-import {
-  BlobReader,
-  BlobWriter,
-  type FileEntry,
-  ZipReader,
-} from "@zip-js/zip-js";
+import { BlobReader, type FileEntry, ZipReader } from "@zip-js/zip-js";
 import type { ExtractInterface } from "./types.ts";
-import type { RecordedTestResult } from "./test-results-downloader.ts";
+import { parseJUnitXml } from "./junit-parser.ts";
+import {
+  getResultsName,
+  type ParsedTestResultArtifact,
+  type ParseWarning,
+} from "./test-results-downloader.ts";
+import { parseRecordedTestsStream } from "./test-results-stream.ts";
+import { limitWarnings } from "./test-results-validation.ts";
 
 export type ArtifactParser = ExtractInterface<ZipArtifactParser>;
 
 export class ZipArtifactParser {
   async parse(artifactName: string, blob: Blob) {
     const zipReader = new ZipReader(new BlobReader(blob));
-    const entries = await zipReader.getEntries();
+    try {
+      const entries = await zipReader.getEntries();
 
-    // GitHub artifacts should contain a single file with the same name as the artifact
-    const jsonEntry = entries.find((entry) =>
-      !entry.directory &&
-      (entry.filename.endsWith(".json") || entry.filename === artifactName)
-    ) as FileEntry | undefined;
+      // GitHub artifacts usually contain a single file with the same name as
+      // the artifact, but may have one per shard or suite
+      const resultsEntries = entries.filter((entry) =>
+        !entry.directory &&
+        (RESULTS_FILE_PATTERN.test(entry.filename) ||
+          entry.filename === artifactName)
+      ) as FileEntry[];
 
-    if (!jsonEntry) {
-      throw new Error(
-        `No JSON file found in artifact "${artifactName}"`,
-      );
+      if (resultsEntries.length === 0) {
+        throw new Error(
+          `No test results file found in artifact "${artifactName}"`,
+        );
+      }
+
+      const artifact: ParsedTestResultArtifact = {
+        name: getResultsName(artifactName),
+        tests: [],
+        files: [],
+      };
+      const warnings: ParseWarning[] = [];
+      const hasMultipleFiles = resultsEntries.length > 1;
+      let firstError: unknown;
+      // one at a time to keep a single file's text in memory
+      for (const entry of resultsEntries) {
+        let parsed: ParsedTestResultArtifact;
+        try {
+          parsed = await parseEntry(artifactName, entry);
+        } catch (error) {
+          // other json or xml files, such as a manifest, are skipped
+          // as long as another file has the results
+          firstError ??= error;
+          artifact.files!.push({
+            fileName: entry.filename,
+            testCount: 0,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          continue;
+        }
+        for (const test of parsed.tests) {
+          if (hasMultipleFiles) {
+            test.sourceFile = entry.filename;
+          }
+          artifact.tests.push(test);
+        }
+        for (const warning of parsed.warnings ?? []) {
+          warnings.push(
+            hasMultipleFiles
+              ? { ...warning, sourceFile: entry.filename }
+              : warning,
+          );
+        }
+        artifact.files!.push({
+          fileName: entry.filename,
+          testCount: parsed.tests.length,
+        });
+      }
+      if (artifact.files!.every((file) => file.error != null)) {
+        throw firstError;
+      }
+      if (warnings.length > 0) {
+        artifact.warnings = hasMultipleFiles
+          ? limitWarnings(warnings)
+          : warnings;
+      }
+      return artifact;
+    } finally {
+      await zipReader.close();
     }
+  }
+}
 
-    // extract the file data
-    const blobWriter = new BlobWriter();
-    const fileBlob = await jsonEntry.getData(blobWriter);
-    const fileData = new Uint8Array(await fileBlob.arrayBuffer());
+const RESULTS_FILE_PATTERN = /\.(json|xml)$/;
 
-    await zipReader.close();
+async function parseEntry(artifactName: string, entry: FileEntry) {
+  // decompress the file as it's parsed instead of holding all of it
+  const { readable, writable } = new TransformStream<
+    BufferSource,
+    BufferSource
+  >();
+  const [parsed] = await Promise.all([
+    parseTestResultsStream(
+      artifactName,
+      readable.pipeThrough(new TextDecoderStream()),
+    ),
+    entry.getData(writable),
+  ]);
+  return parsed;
+}
 
-    const text = new TextDecoder().decode(fileData);
-    const data = JSON.parse(text);
+/**
+ * Parses a test results file, which is either deno's JSON format or a JUnit
+ * XML report depending on what it starts with. JSON is parsed as it's read.
+ */
+export async function parseTestResultsStream(
+  artifactName: string,
+  stream: ReadableStream<string>,
+): Promise<ParsedTestResultArtifact> {
+  const reader = stream.getReader();
+  const firstChunks: string[] = [];
+  let firstChar: string | undefined;
+  while (firstChar == null) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    firstChunks.push(value);
+    firstChar = value.trimStart()[0];
+  }
+
+  const chunks = (async function* () {
+    yield* firstChunks;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  })();
+
+  try {
+    if (firstChar === "<") {
+      let text = "";
+      for await (const chunk of chunks) {
+        text += chunk;
+      }
+      return {
+        name: getResultsName(artifactName),
+        tests: parseJUnitXml(text),
+      };
+    }
+    let validated;
+    try {
+      validated = await parseRecordedTestsStream(chunks);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw error;
+      }
+      throw new Error(
+        `"${artifactName}" does not contain test results: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
     return {
-      name: artifactName.replace(/^test-results-/, "")
-        .replace(/.json$/, ""),
-      tests: data.tests as RecordedTestResult[],
+      name: getResultsName(artifactName),
+      tests: validated.tests,
+      ...(validated.warnings.length > 0
+        ? { warnings: validated.warnings }
+        : {}),
     };
+  } catch (error) {
+    // stop decompressing the rest of the file
+    await reader.cancel().catch(() => {});
+    throw error;
   }
 }
@@ -0,0 +1,117 @@
+import { assertEquals } from "@std/assert";
+import { CachingFileFetcher } from "./caching-file-fetcher.ts";
+import type { FileFetcher } from "./file-fetcher.ts";
+
+class MockFileFetcher implements FileFetcher {
+  requests: Headers[] = [];
+  #responses: Response[] = [];
+
+  mockResponse(response: Response) {
+    this.#responses.push(response);
+  }
+
+  get(_url: string | URL, headers: HeadersInit): Promise<Response> {
+    this.requests.push(new Headers(headers));
+    const response = this.#responses.shift();
+    if (!response) {
+      throw new Error("No mocked response");
+    }
+    return Promise.resolve(response);
+  }
+}
+
+const url = "https://api.github.com/repos/denoland/deno/actions/runs/1";
+
+function jsonResponse(data: unknown, headers: Record<string, string>) {
+  return new Response(JSON.stringify(data), {
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+Deno.test("serves cached body on 304", async () => {
+  const inner = new MockFileFetcher();
+  const fetcher = new CachingFileFetcher(inner);
+
+  inner.mockResponse(jsonResponse({ id: 1 }, { etag: `"abc"` }));
+  inner.mockResponse(
+    new Response(null, {
+      status: 304,
+      headers: { "x-ratelimit-remaining": "4999" },
+    }),
+  );
+
+  const first = await fetcher.get(url, { Accept: "application/json" });
+  assertEquals(await first.json(), { id: 1 });
+  assertEquals(inner.requests[0].has("If-None-Match"), false);
+
+  const second = await fetcher.get(url, { Accept: "application/json" });
+  assertEquals(second.status, 200);
+  assertEquals(await second.json(), { id: 1 });
+  assertEquals(second.headers.get("x-ratelimit-remaining"), "4999");
+  assertEquals(inner.requests[1].get("If-None-Match"), `"abc"`);
+  assertEquals(inner.requests[1].get("Accept"), "application/json");
+});
+
+Deno.test("sends If-Modified-Since for Last-Modified", async () => {
+  const inner = new MockFileFetcher();
+  const fetcher = new CachingFileFetcher(inner);
+  const lastModified = "Wed, 01 Jan 2025 00:00:00 GMT";
+
+  inner.mockResponse(
+    jsonResponse({ id: 1 }, { "last-modified": lastModified }),
+  );
+  inner.mockResponse(new Response(null, { status: 304 }));
+
+  await (await fetcher.get(url, {})).body?.cancel();
+  const second = await fetcher.get(url, {});
+
+  assertEquals(await second.json(), { id: 1 });
+  assertEquals(inner.requests[1].get("If-Modified-Since"), lastModified);
+});
+
+Deno.test("replaces cached body when content changes", async () => {
+  const inner = new MockFileFetcher();
+  const fetcher = new CachingFileFetcher(inner);
+
+  inner.mockResponse(jsonResponse({ id: 1 }, { etag: `"v1"` }));
+  inner.mockResponse(jsonResponse({ id: 2 }, { etag: `"v2"` }));
+  inner.mockResponse(new Response(null, { status: 304 }));
+
+  assertEquals(await (await fetcher.get(url, {})).json(), { id: 1 });
+  assertEquals(await (await fetcher.get(url, {})).json(), { id: 2 });
+  assertEquals(await (await fetcher.get(url, {})).json(), { id: 2 });
+  assertEquals(inner.requests[2].get("If-None-Match"), `"v2"`);
+});
+
+Deno.test("does not cache non-json responses", async () => {
+  const inner = new MockFileFetcher();
+  const fetcher = new CachingFileFetcher(inner);
+
+  inner.mockResponse(
+    new Response("zip", {
+      headers: { "content-type": "application/zip", etag: `"zip"` },
+    }),
+  );
+  inner.mockResponse(new Response("zip"));
+
+  assertEquals(await (await fetcher.get(url, {})).text(), "zip");
+  assertEquals(await (await fetcher.get(url, {})).text(), "zip");
+  assertEquals(inner.requests[1].has("If-None-Match"), false);
+});
+
+Deno.test("does not cache error responses", async () => {
+  const inner = new MockFileFetcher();
+  const fetcher = new CachingFileFetcher(inner);
+
+  inner.mockResponse(
+    new Response("{}", {
+      status: 500,
+      headers: { "content-type": "application/json", etag: `"err"` },
+    }),
+  );
+  inner.mockResponse(jsonResponse({ id: 1 }, {}));
+
+  assertEquals((await fetcher.get(url, {})).status, 500);
+  assertEquals(await (await fetcher.get(url, {})).json(), { id: 1 });
+  assertEquals(inner.requests[1].has("If-None-Match"), false);
+});
@@ -0,0 +1,87 @@
+import { LruCache } from "@std/cache/lru-cache";
+import type { FileFetcher } from "./file-fetcher.ts";
+
+interface CachedResponse {
+  etag: string | null;
+  lastModified: string | null;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: ArrayBuffer;
+}
+
+/**
+ * File fetcher that stores the `ETag` and `Last-Modified` of JSON responses
+ * per url and revalidates them with conditional requests. A `304 Not Modified`
+ * reply is served from the cached body, which GitHub does not count against
+ * the rate limit.
+ */
+export class CachingFileFetcher implements FileFetcher {
+  readonly #inner: FileFetcher;
+  readonly #cache: LruCache<string, CachedResponse>;
+
+  constructor(inner: FileFetcher, maxEntries = 500) {
+    this.#inner = inner;
+    this.#cache = new LruCache(maxEntries);
+  }
+
+  async get(
+    url: string | URL,
+    headers: HeadersInit,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const key = url.toString();
+    const cached = this.#cache.get(key);
+    const requestHeaders = new Headers(headers);
+    if (cached?.etag != null) {
+      requestHeaders.set("If-None-Match", cached.etag);
+    }
+    if (cached?.lastModified != null) {
+      requestHeaders.set("If-Modified-Since", cached.lastModified);
+    }
+
+    const response = await this.#inner.get(url, requestHeaders, signal);
+
+    if (response.status === 304 && cached != null) {
+      // keep the fresh headers (ex. rate limit) from the 304 reply
+      const responseHeaders = new Headers(cached.headers);
+      for (const [name, value] of response.headers) {
+        responseHeaders.set(name, value);
+      }
+      return new Response(cached.body, {
+        status: cached.status,
+        statusText: cached.statusText,
+        headers: responseHeaders,
+      });
+    }
+
+    if (!response.ok || !isCacheable(response)) {
+      if (cached != null) {
+        this.#cache.delete(key);
+      }
+      return response;
+    }
+
+    const body = await response.arrayBuffer();
+    this.#cache.set(key, {
+      etag: response.headers.get("etag"),
+      lastModified: response.headers.get("last-modified"),
+      status: response.status,
+      statusText: response.statusText,
+      headers: Array.from(response.headers),
+      body,
+    });
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+}
+
+function isCacheable(response: Response) {
+  // only cache api responses and not large files like artifact zips
+  const contentType = response.headers.get("content-type") ?? "";
+  return contentType.includes("json") &&
+    (response.headers.has("etag") || response.headers.has("last-modified"));
+}
@@ -0,0 +1,58 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { parseRepositories, parseWorkflows } from "./config.ts";
+
+Deno.test("parseRepositories parses single repository", () => {
+  assertEquals(parseRepositories("denoland/deno"), [
+    { owner: "denoland", name: "deno" },
+  ]);
+});
+
+Deno.test("parseRepositories parses multiple repositories", () => {
+  assertEquals(
+    parseRepositories("denoland/deno, denoland/std,denoland/fresh,"),
+    [
+      { owner: "denoland", name: "deno" },
+      { owner: "denoland", name: "std" },
+      { owner: "denoland", name: "fresh" },
+    ],
+  );
+});
+
+Deno.test("parseRepositories rejects invalid values", () => {
+  assertThrows(
+    () => parseRepositories("denoland"),
+    Error,
+    `Invalid repository "denoland". Expected the format "owner/repo".`,
+  );
+  assertThrows(
+    () => parseRepositories("denoland/deno/extra"),
+    Error,
+    "Invalid repository",
+  );
+  assertThrows(
+    () => parseRepositories(" , "),
+    Error,
+    "At least one repository must be configured.",
+  );
+});
+
+Deno.test("parseWorkflows parses workflow file names and ids", () => {
+  assertEquals(parseWorkflows("ci.yml, pr.yml,12345,"), [
+    "ci.yml",
+    "pr.yml",
+    "12345",
+  ]);
+});
+
+Deno.test("parseWorkflows rejects invalid values", () => {
+  assertThrows(
+    () => parseWorkflows(".github/workflows/ci.yml"),
+    Error,
+    `Invalid workflow ".github/workflows/ci.yml".`,
+  );
+  assertThrows(
+    () => parseWorkflows(""),
+    Error,
+    "At least one workflow must be configured.",
+  );
+});
@@ -1,8 +1,305 @@
+import type { FileSystemArtifactStoreOptions } from "./file-system-artifact-store.ts";
+import type { GitHubAppConfig } from "./github-auth.ts";
+import {
+  type ArtifactCachePolicy,
+  defaultArtifactCachePolicy,
+  defaultArtifactNamePattern,
+} from "./test-results-downloader.ts";
+import {
+  defaultRetryPolicy,
+  type RetryPolicy,
+} from "./retrying-file-fetcher.ts";
+
+export interface Repository {
+  owner: string;
+  name: string;
+}
+
+const DEFAULT_REPOSITORIES = "denoland/deno";
+const DEFAULT_WORKFLOWS = "ci.yml";
+const DEFAULT_ARTIFACT_STORE_DIR = ".cache/artifacts";
+const DEFAULT_ARTIFACT_STORE_MAX_MB = 1024;
+const DEFAULT_RECORDINGS_DIR = ".data/recordings";
+
+export type ArtifactStoreConfig =
+  | { kind: "memory" }
+  | ({ kind: "filesystem" } & FileSystemArtifactStoreOptions);
+
+export type FileFetcherConfig =
+  | { kind: "live" }
+  | { kind: "record" | "replay"; dir: string };
+
 export class ConfigProvider {
   #githubToken: string | undefined;
+  #repositories: Repository[] | undefined;
+  #workflows: string[] | undefined;
+  #retryPolicy: RetryPolicy | undefined;
+  #githubApp: GitHubAppConfig | null | undefined;
+  #artifactStore: ArtifactStoreConfig | undefined;
+  #fileFetcher: FileFetcherConfig | undefined;
+  #artifactCachePolicy: ArtifactCachePolicy | undefined;
+  #artifactNamePattern: RegExp | undefined;
+  #historyDatabasePath: string | null | undefined;
+  #webhookSecret: string | null | undefined;
+  #webhookDeliveriesToken: string | null | undefined;
+  #prefetchIntervalMs: number | null | undefined;
+  #localResultsDir: string | null | undefined;
 
   get githubToken() {
     return this.#githubToken ??
       (this.#githubToken = Deno.env.get("GITHUB_TOKEN"));
   }
+
+  /**
+   * GitHub App installation to authenticate as. When set, this is used
+   * instead of the `GITHUB_TOKEN`.
+   */
+  get githubApp(): GitHubAppConfig | undefined {
+    if (this.#githubApp === undefined) {
+      const appId = Deno.env.get("GITHUB_APP_ID");
+      const privateKey = Deno.env.get("GITHUB_APP_PRIVATE_KEY");
+      const installationId = Deno.env.get("GITHUB_APP_INSTALLATION_ID");
+      if (appId && privateKey && installationId) {
+        this.#githubApp = {
+          appId,
+          // allow providing the key on a single line
+          privateKey: privateKey.replaceAll("\\n", "\n"),
+          installationId,
+          apiUrl: Deno.env.get("GITHUB_API_URL") ?? "https://api.github.com",
+        };
+      } else if (appId || privateKey || installationId) {
+        throw new Error(
+          "GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY and GITHUB_APP_INSTALLATION_ID must all be set.",
+        );
+      } else {
+        this.#githubApp = null;
+      }
+    }
+    return this.#githubApp ?? undefined;
+  }
+
+  /** Repositories served by this deployment. The first one is the default. */
+  get repositories(): readonly Repository[] {
+    return this.#repositories ??
+      (this.#repositories = parseRepositories(
+        Deno.env.get("GITHUB_REPOSITORIES") ?? DEFAULT_REPOSITORIES,
+      ));
+  }
+
+  /**
+   * Workflows that can be viewed, as workflow file names or ids. The first
+   * one is the default.
+   */
+  get workflows(): readonly string[] {
+    return this.#workflows ??
+      (this.#workflows = parseWorkflows(
+        Deno.env.get("GITHUB_WORKFLOWS") ?? DEFAULT_WORKFLOWS,
+      ));
+  }
+
+  /** Retry and timeout policy for requests made by the file fetcher. */
+  get retryPolicy(): RetryPolicy {
+    return this.#retryPolicy ?? (this.#retryPolicy = {
+      ...defaultRetryPolicy,
+      maxRetries: getEnvInt("FETCH_MAX_RETRIES") ??
+        defaultRetryPolicy.maxRetries,
+      timeoutMs: getEnvInt("FETCH_TIMEOUT_MS") ?? defaultRetryPolicy.timeoutMs,
+    });
+  }
+
+  /** Gets the configured workflow, falling back to the default one. */
+  findWorkflow(workflow: string | null | undefined): string | undefined {
+    if (workflow == null) {
+      return this.workflows[0];
+    }
+    return this.workflows.find((value) => value === workflow);
+  }
+
+  /** Where parsed test result artifacts are cached. */
+  get artifactStore(): ArtifactStoreConfig {
+    if (this.#artifactStore == null) {
+      const kind = Deno.env.get("ARTIFACT_STORE") ?? "memory";
+      if (kind === "memory") {
+        this.#artifactStore = { kind };
+      } else if (kind === "filesystem") {
+        const maxMb = getEnvInt("ARTIFACT_STORE_MAX_MB") ??
+          DEFAULT_ARTIFACT_STORE_MAX_MB;
+        this.#artifactStore = {
+          kind,
+          dir: Deno.env.get("ARTIFACT_STORE_DIR") ?? DEFAULT_ARTIFACT_STORE_DIR,
+          maxBytes: maxMb * 1024 * 1024,
+        };
+      } else {
+        throw new Error(
+          `Invalid value for ARTIFACT_STORE: ${kind}. Expected "memory" or "filesystem".`,
+        );
+      }
+    }
+    return this.#artifactStore;
+  }
+
+  /**
+   * Whether requests to GitHub are made normally, also recorded to a
+   * directory or replayed from one without network access.
+   */
+  get fileFetcher(): FileFetcherConfig {
+    if (this.#fileFetcher == null) {
+      const kind = Deno.env.get("FILE_FETCHER") ?? "live";
+      if (kind === "live") {
+        this.#fileFetcher = { kind };
+      } else if (kind === "record" || kind === "replay") {
+        this.#fileFetcher = {
+          kind,
+          dir: Deno.env.get("FILE_FETCHER_DIR") ?? DEFAULT_RECORDINGS_DIR,
+        };
+      } else {
+        throw new Error(
+          `Invalid value for FILE_FETCHER: ${kind}. Expected "live", "record" or "replay".`,
+        );
+      }
+    }
+    return this.#fileFetcher;
+  }
+
+  /** Expiry and error handling of the cached artifacts. */
+  get artifactCachePolicy(): ArtifactCachePolicy {
+    return this.#artifactCachePolicy ?? (this.#artifactCachePolicy = {
+      ttlMs: getEnvInt("ARTIFACT_STORE_TTL_MS"),
+      errorCooldownMs: getEnvInt("ARTIFACT_STORE_ERROR_COOLDOWN_MS") ??
+        defaultArtifactCachePolicy.errorCooldownMs,
+    });
+  }
+
+  /** Names of the artifacts that contain test results. */
+  get artifactNamePattern(): RegExp {
+    if (this.#artifactNamePattern == null) {
+      const pattern = Deno.env.get("ARTIFACT_NAME_PATTERN");
+      try {
+        this.#artifactNamePattern = pattern
+          ? new RegExp(pattern)
+          : defaultArtifactNamePattern;
+      } catch {
+        throw new Error(
+          `Invalid value for ARTIFACT_NAME_PATTERN: ${pattern}. Expected a regular expression.`,
+        );
+      }
+    }
+    return this.#artifactNamePattern;
+  }
+
+  /** Path of the history database or undefined when history is disabled. */
+  get historyDatabasePath(): string | undefined {
+    if (this.#historyDatabasePath === undefined) {
+      this.#historyDatabasePath = Deno.env.get("HISTORY_DATABASE_PATH") || null;
+    }
+    return this.#historyDatabasePath ?? undefined;
+  }
+
+  /** Secret of the GitHub webhook or undefined when webhooks are disabled. */
+  get webhookSecret(): string | undefined {
+    if (this.#webhookSecret === undefined) {
+      this.#webhookSecret = Deno.env.get("GITHUB_WEBHOOK_SECRET") || null;
+    }
+    return this.#webhookSecret ?? undefined;
+  }
+
+  /**
+   * Bearer token for viewing the recent webhook deliveries or undefined
+   * when they can't be viewed.
+   */
+  get webhookDeliveriesToken(): string | undefined {
+    if (this.#webhookDeliveriesToken === undefined) {
+      this.#webhookDeliveriesToken = Deno.env.get("WEBHOOK_DELIVERIES_TOKEN") ||
+        null;
+    }
+    return this.#webhookDeliveriesToken ?? undefined;
+  }
+
+  /**
+   * How often new main branch runs are prefetched or undefined when
+   * prefetching is disabled.
+   */
+  get prefetchIntervalMs(): number | undefined {
+    if (this.#prefetchIntervalMs === undefined) {
+      this.#prefetchIntervalMs = getEnvInt("PREFETCH_INTERVAL_MS") || null;
+    }
+    return this.#prefetchIntervalMs ?? undefined;
+  }
+
+  /** Directory of results files shown at `/local` or undefined when disabled. */
+  get localResultsDir(): string | undefined {
+    if (this.#localResultsDir === undefined) {
+      this.#localResultsDir = Deno.env.get("LOCAL_RESULTS_DIR") || null;
+    }
+    return this.#localResultsDir ?? undefined;
+  }
+
+  get defaultRepository(): Repository {
+    return this.repositories[0];
+  }
+
+  findRepository(owner: string, name: string): Repository | undefined {
+    owner = owner.toLowerCase();
+    name = name.toLowerCase();
+    return this.repositories.find((repo) =>
+      repo.owner.toLowerCase() === owner && repo.name.toLowerCase() === name
+    );
+  }
+}
+
+/** Parses a comma separated list of `owner/repo` values. */
+export function parseRepositories(text: string): Repository[] {
+  const repositories = text.split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0)
+    .map((value) => {
+      const parts = value.split("/");
+      if (parts.length !== 2 || parts.some((part) => part.length === 0)) {
+        throw new Error(
+          `Invalid repository "${value}". Expected the format "owner/repo".`,
+        );
+      }
+      return { owner: parts[0], name: parts[1] };
+    });
+
+  if (repositories.length === 0) {
+    throw new Error("At least one repository must be configured.");
+  }
+
+  return repositories;
+}
+
+/** Parses a comma separated list of workflow file names or ids. */
+export function parseWorkflows(text: string): string[] {
+  const workflows = text.split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+
+  const invalid = workflows.find((value) => value.includes("/"));
+  if (invalid != null) {
+    throw new Error(
+      `Invalid workflow "${invalid}". Expected a workflow file name (ex. "ci.yml") or id.`,
+    );
+  }
+  if (workflows.length === 0) {
+    throw new Error("At least one workflow must be configured.");
+  }
+
+  return workflows;
+}
+
+function getEnvInt(name: string) {
+  const value = Deno.env.get(name);
+  if (value == null) {
+    return undefined;
+  }
+  const number = parseInt(value, 10);
+  if (isNaN(number) || number < 0) {
+    throw new Error(`Invalid value for ${name}: ${value}`);
+  }
+  return number;
+}
+
+export function repositoryPath(repo: Repository) {
+  return `/${repo.owner}/${repo.name}`;
 }
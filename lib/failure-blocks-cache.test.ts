@@ -0,0 +1,50 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { FailureBlocksCache } from "./failure-blocks-cache.ts";
+
+const log = [
+  "2024-01-01T00:00:00.0000000Z ---- specs::foo stdout ----",
+  "2024-01-01T00:00:00.0000000Z assertion failed",
+  "2024-01-01T00:00:00.0000000Z failures:",
+].join("\n");
+
+Deno.test("downloads the log of a completed job once", async () => {
+  const cache = new FailureBlocksCache();
+  let downloads = 0;
+  const downloadLog = () => {
+    downloads++;
+    return Promise.resolve(log);
+  };
+  const job = { id: 1, status: "completed" };
+
+  const blocks = await cache.get(job, downloadLog);
+  assertEquals(await cache.get(job, downloadLog), blocks);
+  assertEquals(blocks.get("specs::foo"), "assertion failed");
+  assertEquals(downloads, 1);
+});
+
+Deno.test("doesn't keep the logs of jobs in progress", async () => {
+  const cache = new FailureBlocksCache();
+  let downloads = 0;
+  const downloadLog = () => {
+    downloads++;
+    return Promise.resolve(log);
+  };
+  const job = { id: 1, status: "in_progress" };
+
+  await cache.get(job, downloadLog);
+  await cache.get(job, downloadLog);
+  assertEquals(downloads, 2);
+});
+
+Deno.test("retries logs that failed to download", async () => {
+  const cache = new FailureBlocksCache();
+  const job = { id: 1, status: "completed" };
+
+  await assertRejects(
+    () => cache.get(job, () => Promise.reject(new Error("Not found"))),
+    Error,
+    "Not found",
+  );
+  const blocks = await cache.get(job, () => Promise.resolve(log));
+  assertEquals(blocks.size, 1);
+});
@@ -0,0 +1,37 @@
+import { LruCache } from "@std/cache/lru-cache";
+import type { WorkflowJob } from "./github-api-client.ts";
+import { parseFailureBlocks } from "./job-log-parser.ts";
+
+/**
+ * Keeps the failure blocks of completed jobs by job id so their logs,
+ * which don't change once a job completes, are only downloaded once.
+ */
+export class FailureBlocksCache {
+  readonly #cache: LruCache<number, Promise<Map<string, string>>>;
+
+  constructor(maxEntries = 200) {
+    this.#cache = new LruCache(maxEntries);
+  }
+
+  get(
+    job: Pick<WorkflowJob, "id" | "status">,
+    downloadLog: () => Promise<string>,
+  ): Promise<Map<string, string>> {
+    const load = async () => parseFailureBlocks(await downloadLog());
+    if (job.status !== "completed") {
+      return load();
+    }
+    const cached = this.#cache.get(job.id);
+    if (cached != null) {
+      return cached;
+    }
+    const blocks = load();
+    this.#cache.set(job.id, blocks);
+    blocks.catch(() => {
+      if (this.#cache.get(job.id) === blocks) {
+        this.#cache.delete(job.id);
+      }
+    });
+    return blocks;
+  }
+}
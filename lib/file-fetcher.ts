@@ -3,7 +3,7 @@ import type { ExtractInterface } from "./types.ts";
 export type FileFetcher = ExtractInterface<RealFileFetcher>;
 
 export class RealFileFetcher {
-  get(url: string | URL, headers: HeadersInit) {
-    return fetch(url, { headers });
+  get(url: string | URL, headers: HeadersInit, signal?: AbortSignal) {
+    return fetch(url, { headers, signal });
   }
 }
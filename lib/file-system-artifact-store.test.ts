@@ -0,0 +1,147 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { FileSystemTestResultArtifactStore } from "./file-system-artifact-store.ts";
+import { NullLogger } from "./logger.ts";
+import type { ParsedTestResultArtifact } from "./test-results-downloader.ts";
+import { AsyncValue } from "./utils/async-value.ts";
+
+async function withTempDir(action: (dir: string) => Promise<void>) {
+  const dir = await Deno.makeTempDir();
+  try {
+    await action(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+function createArtifact(name: string): ParsedTestResultArtifact {
+  return { name, tests: [{ name: "test", path: "test.ts", duration: 100 }] };
+}
+
+function createStore(dir: string, maxBytes = 1024 * 1024) {
+  return new FileSystemTestResultArtifactStore(
+    { dir, maxBytes },
+    new NullLogger(),
+  );
+}
+
+Deno.test("persists artifacts across instances", async () => {
+  await withTempDir(async (dir) => {
+    const store = createStore(dir);
+    store.set("1", new AsyncValue(() => Promise.resolve(createArtifact("a"))));
+    await store.flush();
+
+    const newStore = createStore(dir);
+    const value = newStore.get("1");
+    assertEquals(await value?.get(), createArtifact("a"));
+    assertEquals(newStore.get("2"), undefined);
+  });
+});
+
+Deno.test("does not write failed values", async () => {
+  await withTempDir(async (dir) => {
+    const store = createStore(dir);
+    const value = new AsyncValue<ParsedTestResultArtifact>(() =>
+      Promise.reject(new Error("download failed"))
+    );
+    store.set("1", value);
+    await assertRejects(() => value.get(), Error, "download failed");
+    await store.flush();
+
+    assertEquals(createStore(dir).get("1"), undefined);
+  });
+});
+
+Deno.test("evicts least recently used files over size limit", async () => {
+  await withTempDir(async (dir) => {
+    const size = JSON.stringify(createArtifact("a")).length;
+    const store = createStore(dir, size * 2);
+    store.set("1", new AsyncValue(() => Promise.resolve(createArtifact("a"))));
+    await store.flush();
+    store.set("2", new AsyncValue(() => Promise.resolve(createArtifact("b"))));
+    await store.flush();
+    // use the first one so the second one is evicted
+    await store.get("1")?.get();
+    store.set("3", new AsyncValue(() => Promise.resolve(createArtifact("c"))));
+    await store.flush();
+
+    assertEquals(store.totalBytes, size * 2);
+    const newStore = createStore(dir, size * 2);
+    assertEquals(await newStore.get("1")?.get(), createArtifact("a"));
+    assertEquals(newStore.get("2"), undefined);
+    assertEquals(await newStore.get("3")?.get(), createArtifact("c"));
+  });
+});
+
+Deno.test("deletes files", async () => {
+  await withTempDir(async (dir) => {
+    const store = createStore(dir);
+    store.set("1", new AsyncValue(() => Promise.resolve(createArtifact("a"))));
+    await store.flush();
+
+    assertEquals(store.delete("1"), true);
+    assertEquals(store.delete("1"), false);
+    await store.flush();
+
+    assertEquals(store.get("1"), undefined);
+    assertEquals(createStore(dir).get("1"), undefined);
+  });
+});
+
+Deno.test("expires files after ttl", async () => {
+  await withTempDir(async (dir) => {
+    const store = createStore(dir);
+    store.set("1", new AsyncValue(() => Promise.resolve(createArtifact("a"))));
+    await store.flush();
+
+    const expiringStore = new FileSystemTestResultArtifactStore(
+      { dir, maxBytes: 1024 * 1024 },
+      new NullLogger(),
+      { errorCooldownMs: 0, ttlMs: 0 },
+    );
+    assertEquals(expiringStore.get("1"), undefined);
+    assertEquals(expiringStore.stats, { hits: 0, misses: 1, errors: 0 });
+    await expiringStore.flush();
+    assertEquals(createStore(dir).get("1"), undefined);
+  });
+});
+
+Deno.test("expires files by the time they were stored instead of used", async () => {
+  await withTempDir(async (dir) => {
+    const store = createStore(dir);
+    store.set("1", new AsyncValue(() => Promise.resolve(createArtifact("a"))));
+    await store.flush();
+    const [file] = Array.from(Deno.readDirSync(`${dir}/v1`));
+    const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
+    await Deno.rename(
+      `${dir}/v1/${file.name}`,
+      `${dir}/v1/1@${twoHoursAgo}.json`,
+    );
+
+    const expiringStore = new FileSystemTestResultArtifactStore(
+      { dir, maxBytes: 1024 * 1024 },
+      new NullLogger(),
+      { errorCooldownMs: 0, ttlMs: 60 * 60 * 1000 },
+    );
+    assertEquals(expiringStore.get("1"), undefined);
+  });
+});
+
+Deno.test("leaves files it didn't store in the directory", async () => {
+  await withTempDir(async (dir) => {
+    await Deno.writeTextFile(
+      `${dir}/1.json`,
+      JSON.stringify(createArtifact("a")),
+    );
+    await Deno.mkdir(`${dir}/v2`);
+    await Deno.writeTextFile(`${dir}/v2/1@0.json`, "{}");
+
+    const store = createStore(dir);
+    assertEquals(store.get("1"), undefined);
+    await store.flush();
+
+    assertEquals(
+      Array.from(Deno.readDirSync(dir)).map((entry) => entry.name).sort(),
+      ["1.json", "v1", "v2"],
+    );
+  });
+});
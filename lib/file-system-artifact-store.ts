@@ -0,0 +1,230 @@
+import type { Logger } from "./logger.ts";
+import {
+  type ArtifactCachePolicy,
+  type ArtifactStoreStats,
+  defaultArtifactCachePolicy,
+  LruTestResultArtifactStore,
+  type ParsedTestResultArtifact,
+  type TestResultArtifactStore,
+} from "./test-results-downloader.ts";
+import { AsyncValue } from "./utils/async-value.ts";
+
+/**
+ * Version of the stored JSON, which is increased when the parsed artifacts
+ * change so files written by older versions are parsed again.
+ */
+const FORMAT_VERSION = 1;
+// ex. `1234@1735689600000.json` for the key `1234` stored at that time
+const FILE_NAME = /^(.+)@(\d+)\.json$/;
+
+export interface FileSystemArtifactStoreOptions {
+  /** Directory the parsed artifacts are stored in. */
+  dir: string;
+  /** Size the directory is kept under by evicting the least recently used files. */
+  maxBytes: number;
+}
+
+/**
+ * Stores parsed artifacts as JSON files so they survive restarts. Recently
+ * used values are also kept in memory. The time a file was stored is kept
+ * in its name since its modified time tracks when it was last used.
+ */
+export class FileSystemTestResultArtifactStore
+  implements TestResultArtifactStore {
+  readonly #dir: string;
+  readonly #maxBytes: number;
+  readonly #ttlMs: number | undefined;
+  readonly #logger: Logger;
+  readonly #memory: LruTestResultArtifactStore;
+  /** Files on disk by key from least to most recently used. */
+  readonly #files = new Map<string, { size: number; storedAt: number }>();
+  readonly #pendingOperations = new Set<Promise<void>>();
+  readonly #stats = { hits: 0, misses: 0 };
+  #totalBytes = 0;
+
+  constructor(
+    options: FileSystemArtifactStoreOptions,
+    logger: Logger,
+    policy: ArtifactCachePolicy = defaultArtifactCachePolicy,
+  ) {
+    this.#dir = `${options.dir}/v${FORMAT_VERSION}`;
+    this.#maxBytes = options.maxBytes;
+    this.#ttlMs = policy.ttlMs;
+    this.#logger = logger;
+    this.#memory = new LruTestResultArtifactStore(policy);
+    this.#loadIndex();
+  }
+
+  get stats(): ArtifactStoreStats {
+    // values read from disk are also stored in memory, so this
+    // includes the files that failed to be read
+    return { ...this.#stats, errors: this.#memory.stats.errors };
+  }
+
+  get totalBytes(): number {
+    return this.#totalBytes;
+  }
+
+  get(key: string): AsyncValue<ParsedTestResultArtifact> | undefined {
+    let file = this.#files.get(key);
+    if (
+      file != null && this.#ttlMs != null &&
+      Date.now() - file.storedAt >= this.#ttlMs
+    ) {
+      this.delete(key);
+      file = undefined;
+    }
+    if (file != null) {
+      this.#markUsed(key, file);
+      // the modified time tracks usage across restarts
+      const now = new Date();
+      this.#track(
+        Deno.utime(this.#getPath(key, file.storedAt), now, now)
+          .catch(() => {}),
+      );
+    }
+    const cached = this.#memory.get(key);
+    if (cached != null) {
+      this.#stats.hits++;
+      return cached;
+    }
+    if (file == null) {
+      this.#stats.misses++;
+      return undefined;
+    }
+    this.#stats.hits++;
+    const path = this.#getPath(key, file.storedAt);
+    const value = new AsyncValue(() => this.#read(key, path));
+    this.#memory.set(key, value);
+    return value;
+  }
+
+  set(key: string, value: AsyncValue<ParsedTestResultArtifact>): void {
+    this.#memory.set(key, value);
+    const write = value.get()
+      .then((artifact) => this.#write(key, artifact))
+      // failed downloads are not written
+      .catch(() => {});
+    this.#track(write);
+  }
+
+  delete(key: string): boolean {
+    const deletedFromMemory = this.#memory.delete(key);
+    return this.#removeFile(key) || deletedFromMemory;
+  }
+
+  /** Waits for pending file system operations to finish. */
+  async flush(): Promise<void> {
+    // writes may start removals, so wait until nothing is left
+    while (this.#pendingOperations.size > 0) {
+      await Promise.all(this.#pendingOperations);
+    }
+  }
+
+  #loadIndex() {
+    // this is done synchronously once on startup so that `get` can
+    // tell whether an artifact is on disk without waiting
+    Deno.mkdirSync(this.#dir, { recursive: true });
+    const files: {
+      key: string;
+      size: number;
+      storedAt: number;
+      usedAt: number;
+    }[] = [];
+    for (const entry of Deno.readDirSync(this.#dir)) {
+      const match = entry.isFile ? FILE_NAME.exec(entry.name) : null;
+      if (match == null) {
+        continue;
+      }
+      const info = Deno.statSync(`${this.#dir}/${entry.name}`);
+      files.push({
+        key: decodeURIComponent(match[1]),
+        size: info.size,
+        storedAt: parseInt(match[2], 10),
+        usedAt: info.mtime?.getTime() ?? 0,
+      });
+    }
+    files.sort((a, b) => a.usedAt - b.usedAt);
+    for (const { key, size, storedAt } of files) {
+      this.#files.set(key, { size, storedAt });
+      this.#totalBytes += size;
+    }
+    this.#evict();
+  }
+
+  async #read(key: string, path: string): Promise<ParsedTestResultArtifact> {
+    try {
+      return JSON.parse(await Deno.readTextFile(path));
+    } catch (error) {
+      this.#memory.delete(key);
+      this.#removeFile(key);
+      throw error;
+    }
+  }
+
+  async #write(key: string, artifact: ParsedTestResultArtifact) {
+    const data = new TextEncoder().encode(JSON.stringify(artifact));
+    const storedAt = Date.now();
+    const path = this.#getPath(key, storedAt);
+    const tempPath = `${path}.tmp`;
+    try {
+      await Deno.writeFile(tempPath, data);
+      await Deno.rename(tempPath, path);
+    } catch (error) {
+      this.#logger.logError(`Failed to write artifact ${key}:`, error);
+      await Deno.remove(tempPath).catch(() => {});
+      return;
+    }
+    const previous = this.#files.get(key);
+    if (previous != null && previous.storedAt !== storedAt) {
+      this.#track(
+        Deno.remove(this.#getPath(key, previous.storedAt)).catch(() => {}),
+      );
+    }
+    this.#totalBytes -= previous?.size ?? 0;
+    this.#markUsed(key, { size: data.length, storedAt });
+    this.#totalBytes += data.length;
+    this.#evict();
+  }
+
+  #markUsed(key: string, file: { size: number; storedAt: number }) {
+    this.#files.delete(key);
+    this.#files.set(key, file);
+  }
+
+  #evict() {
+    for (const key of this.#files.keys()) {
+      if (this.#totalBytes <= this.#maxBytes) {
+        break;
+      }
+      this.#removeFile(key);
+    }
+  }
+
+  #removeFile(key: string): boolean {
+    const file = this.#files.get(key);
+    if (file == null) {
+      return false;
+    }
+    this.#files.delete(key);
+    this.#totalBytes -= file.size;
+    this.#track(
+      Deno.remove(this.#getPath(key, file.storedAt)).catch((error) => {
+        if (!(error instanceof Deno.errors.NotFound)) {
+          this.#logger.logError(`Failed to remove artifact ${key}:`, error);
+        }
+      }),
+    );
+    return true;
+  }
+
+  #track(promise: Promise<void>) {
+    this.#pendingOperations.add(promise);
+    promise.finally(() => this.#pendingOperations.delete(promise));
+  }
+
+  #getPath(key: string, storedAt: number) {
+    // `@` is always encoded in the key
+    return `${this.#dir}/${encodeURIComponent(key)}@${storedAt}.json`;
+  }
+}
@@ -1,23 +1,34 @@
-import { assertEquals, assertRejects } from "@std/assert";
+import { assert, assertEquals, assertRejects } from "@std/assert";
 import { RealGitHubApiClient, type WorkflowRun } from "./github-api-client.ts";
 import type { FileFetcher } from "./file-fetcher.ts";
+import { StaticTokenProvider } from "./github-auth.ts";
+import type { Repository } from "./config.ts";
+import { RateLimitedError, RateLimitTracker } from "./rate-limit.ts";
+
+const denoRepo: Repository = { owner: "denoland", name: "deno" };
 
 class MockFileFetcher implements FileFetcher {
-  #responses: Map<string, Response> = new Map();
+  #responses: Map<string, Response[]> = new Map();
+  requestCount = 0;
 
+  /** Mocks a response. Multiple calls for the same url are returned in order. */
   mockResponse(url: string, response: Response) {
-    this.#responses.set(url, response);
+    const responses = this.#responses.get(url) ?? [];
+    responses.push(response);
+    this.#responses.set(url, responses);
   }
 
   get(url: string | URL, _headers: HeadersInit): Promise<Response> {
-    const urlString = url.toString();
-    const response = this.#responses.get(urlString);
-    if (!response) {
+    this.requestCount++;
+    const responses = this.#responses.get(url.toString());
+    if (!responses) {
       return Promise.resolve(
         new Response(null, { status: 404, statusText: "Not Found" }),
       );
     }
-    return Promise.resolve(response);
+    return Promise.resolve(
+      responses.length > 1 ? responses.shift()! : responses[0],
+    );
   }
 }
 
@@ -25,17 +36,30 @@ function createMockResponse(
   data: unknown,
   status = 200,
   statusText = "OK",
+  headers: Record<string, string> = {},
 ): Response {
   return new Response(JSON.stringify(data), {
     status,
     statusText,
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...headers },
   });
 }
 
+function createClient(
+  fileFetcher: FileFetcher,
+  rateLimit = new RateLimitTracker(),
+) {
+  return new RealGitHubApiClient(
+    fileFetcher,
+    new StaticTokenProvider("test-token"),
+    denoRepo,
+    rateLimit,
+  );
+}
+
 Deno.test("listWorkflowRuns success", async () => {
   const mockFetcher = new MockFileFetcher();
-  const client = new RealGitHubApiClient(mockFetcher, "test-token");
+  const client = createClient(mockFetcher);
 
   const mockData = {
     total_count: 100,
@@ -52,26 +76,51 @@ Deno.test("listWorkflowRuns success", async () => {
         event: "push",
         head_branch: "main",
         head_sha: "abc123",
+        run_attempt: 1,
+        run_started_at: "2025-01-01T00:00:00Z",
+        pull_requests: [],
+        actor: {
+          login: "octocat",
+          html_url: "https://github.com/octocat",
+          avatar_url: "https://avatars.githubusercontent.com/u/1",
+        },
+        head_commit: {
+          id: "abc123",
+          message: "Fix tests\n\nMore details",
+          timestamp: "2025-01-01T00:00:00Z",
+          author: { name: "Octo Cat", email: "octocat@example.com" },
+        },
+        head_repository: {
+          id: 1,
+          name: "deno",
+          full_name: "denoland/deno",
+          html_url: "https://github.com/denoland/deno",
+        },
       },
     ],
   };
 
   mockFetcher.mockResponse(
-    "https://api.github.com/repos/denoland/deno/actions/runs?per_page=30&page=1",
+    "https://api.github.com/repos/denoland/deno/actions/workflows/ci.yml/runs?per_page=30&page=1",
     createMockResponse(mockData),
   );
 
-  const result = await client.listWorkflowRuns(30, 1);
+  const result = await client.listWorkflowRuns("ci.yml", 30, 1);
 
   assertEquals(result.totalCount, 100);
   assertEquals(result.runs.length, 1);
   assertEquals(result.runs[0].id, 123);
   assertEquals(result.runs[0].name, "CI");
+  assertEquals(result.runs[0].actor.login, "octocat");
+  assertEquals(
+    result.runs[0].head_commit?.message,
+    "Fix tests\n\nMore details",
+  );
 });
 
 Deno.test("listWorkflowRuns with custom pagination", async () => {
   const mockFetcher = new MockFileFetcher();
-  const client = new RealGitHubApiClient(mockFetcher, "test-token");
+  const client = createClient(mockFetcher);
 
   const mockData = {
     total_count: 200,
@@ -79,27 +128,47 @@ Deno.test("listWorkflowRuns with custom pagination", async () => {
   };
 
   mockFetcher.mockResponse(
-    "https://api.github.com/repos/denoland/deno/actions/runs?per_page=50&page=2",
+    "https://api.github.com/repos/denoland/deno/actions/workflows/ci.yml/runs?per_page=50&page=2",
     createMockResponse(mockData),
   );
 
-  const result = await client.listWorkflowRuns(50, 2);
+  const result = await client.listWorkflowRuns("ci.yml", 50, 2);
 
   assertEquals(result.totalCount, 200);
   assertEquals(result.runs.length, 0);
 });
 
+Deno.test("listWorkflowRuns by workflow id with filters", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = createClient(mockFetcher);
+
+  mockFetcher.mockResponse(
+    "https://api.github.com/repos/denoland/deno/actions/workflows/12345/runs?per_page=100&page=1&branch=main&event=schedule&status=failure&created=2025-01-01..2025-01-02",
+    createMockResponse({ total_count: 0, workflow_runs: [] }),
+  );
+
+  const result = await client.listWorkflowRuns("12345", 100, 1, {
+    branch: "main",
+    event: "schedule",
+    status: "failure",
+    actor: "",
+    created: "2025-01-01..2025-01-02",
+  });
+
+  assertEquals(result.totalCount, 0);
+});
+
 Deno.test("listWorkflowRuns failure", async () => {
   const mockFetcher = new MockFileFetcher();
-  const client = new RealGitHubApiClient(mockFetcher, "test-token");
+  const client = createClient(mockFetcher);
 
   mockFetcher.mockResponse(
-    "https://api.github.com/repos/denoland/deno/actions/runs?per_page=30&page=1",
+    "https://api.github.com/repos/denoland/deno/actions/workflows/ci.yml/runs?per_page=30&page=1",
     new Response(null, { status: 500, statusText: "Internal Server Error" }),
   );
 
   await assertRejects(
-    () => client.listWorkflowRuns(30, 1),
+    () => client.listWorkflowRuns("ci.yml", 30, 1),
     Error,
     "Failed to fetch workflow runs: 500 Internal Server Error",
   );
@@ -107,7 +176,7 @@ Deno.test("listWorkflowRuns failure", async () => {
 
 Deno.test("getWorkflowRun success", async () => {
   const mockFetcher = new MockFileFetcher();
-  const client = new RealGitHubApiClient(mockFetcher, "test-token");
+  const client = createClient(mockFetcher);
 
   const mockRun: WorkflowRun = {
     id: 456,
@@ -121,6 +190,22 @@ Deno.test("getWorkflowRun success", async () => {
     event: "pull_request",
     head_branch: "feature-branch",
     head_sha: "def456",
+    run_attempt: 2,
+    run_started_at: "2025-01-01T00:05:00Z",
+    pull_requests: [{
+      id: 1,
+      number: 123,
+      url: "https://api.github.com/repos/denoland/deno/pulls/123",
+      head: { ref: "feature-branch", sha: "def456" },
+      base: { ref: "main", sha: "abc123" },
+    }],
+    actor: {
+      login: "octocat",
+      html_url: "https://github.com/octocat",
+      avatar_url: "https://avatars.githubusercontent.com/u/1",
+    },
+    head_commit: null,
+    head_repository: null,
   };
 
   mockFetcher.mockResponse(
@@ -135,7 +220,7 @@ Deno.test("getWorkflowRun success", async () => {
 
 Deno.test("getWorkflowRun not found", async () => {
   const mockFetcher = new MockFileFetcher();
-  const client = new RealGitHubApiClient(mockFetcher, "test-token");
+  const client = createClient(mockFetcher);
 
   mockFetcher.mockResponse(
     "https://api.github.com/repos/denoland/deno/actions/runs/999",
@@ -149,7 +234,7 @@ Deno.test("getWorkflowRun not found", async () => {
 
 Deno.test("getWorkflowRun failure", async () => {
   const mockFetcher = new MockFileFetcher();
-  const client = new RealGitHubApiClient(mockFetcher, "test-token");
+  const client = createClient(mockFetcher);
 
   mockFetcher.mockResponse(
     "https://api.github.com/repos/denoland/deno/actions/runs/123",
@@ -163,9 +248,23 @@ Deno.test("getWorkflowRun failure", async () => {
   );
 });
 
+Deno.test("getWorkflowRun for attempt", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = createClient(mockFetcher);
+
+  mockFetcher.mockResponse(
+    "https://api.github.com/repos/denoland/deno/actions/runs/456/attempts/1",
+    createMockResponse({ id: 456, run_attempt: 1 }),
+  );
+
+  const result = await client.getWorkflowRun(456, 1);
+
+  assertEquals(result?.run_attempt, 1);
+});
+
 Deno.test("listArtifacts success", async () => {
   const mockFetcher = new MockFileFetcher();
-  const client = new RealGitHubApiClient(mockFetcher, "test-token");
+  const client = createClient(mockFetcher);
 
   const mockData = {
     total_count: 2,
@@ -196,7 +295,7 @@ Deno.test("listArtifacts success", async () => {
   };
 
   mockFetcher.mockResponse(
-    "https://api.github.com/repos/denoland/deno/actions/runs/123/artifacts?per_page=100&page=1",
+    "https://api.github.com/repos/denoland/deno/actions/runs/123/artifacts?per_page=100",
     createMockResponse(mockData),
   );
 
@@ -209,10 +308,10 @@ Deno.test("listArtifacts success", async () => {
 
 Deno.test("listArtifacts failure", async () => {
   const mockFetcher = new MockFileFetcher();
-  const client = new RealGitHubApiClient(mockFetcher, "test-token");
+  const client = createClient(mockFetcher);
 
   mockFetcher.mockResponse(
-    "https://api.github.com/repos/denoland/deno/actions/runs/123/artifacts?per_page=100&page=1",
+    "https://api.github.com/repos/denoland/deno/actions/runs/123/artifacts?per_page=100",
     new Response(null, { status: 401, statusText: "Unauthorized" }),
   );
 
@@ -223,9 +322,94 @@ Deno.test("listArtifacts failure", async () => {
   );
 });
 
+Deno.test("listJobs follows link header", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = createClient(mockFetcher);
+  const jobsUrl =
+    "https://api.github.com/repos/denoland/deno/actions/runs/123/jobs";
+  // GitHub may report a different total than what's listed
+  mockFetcher.mockResponse(
+    `${jobsUrl}?per_page=100`,
+    createMockResponse(
+      { total_count: 1, jobs: [{ id: 1 }, { id: 2 }] },
+      200,
+      "OK",
+      { "Link": `<${jobsUrl}?per_page=100&page=2>; rel="next"` },
+    ),
+  );
+  mockFetcher.mockResponse(
+    `${jobsUrl}?per_page=100&page=2`,
+    createMockResponse(
+      { total_count: 1, jobs: [{ id: 3 }] },
+      200,
+      "OK",
+      { "Link": `<${jobsUrl}?per_page=100&page=1>; rel="prev"` },
+    ),
+  );
+
+  const result = await client.listJobs(123);
+
+  assertEquals(result.map((job) => job.id), [1, 2, 3]);
+  assertEquals(mockFetcher.requestCount, 2);
+});
+
+Deno.test("paginate reports truncation", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = createClient(mockFetcher);
+  const url = "https://api.github.com/repos/denoland/deno/actions/runs";
+  for (let page = 1; page <= 3; page++) {
+    mockFetcher.mockResponse(
+      page === 1 ? url : `${url}?page=${page}`,
+      createMockResponse({ items: [page] }, 200, "OK", {
+        "Link": `<${url}?page=${page + 1}>; rel="next"`,
+      }),
+    );
+  }
+
+  const pages = client.paginate(
+    url,
+    (data: { items: number[] }) => data.items,
+    { maxPages: 2 },
+  );
+  const items: number[] = [];
+  let next = await pages.next();
+  while (!next.done) {
+    items.push(next.value);
+    next = await pages.next();
+  }
+  assertEquals(items, [1, 2]);
+  assertEquals(next.value, { truncated: true });
+  assertEquals(mockFetcher.requestCount, 2);
+});
+
+Deno.test("listJobs flags truncated results", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = createClient(mockFetcher);
+  const jobsUrl =
+    "https://api.github.com/repos/denoland/deno/actions/runs/123/jobs";
+  for (let page = 1; page <= 100; page++) {
+    mockFetcher.mockResponse(
+      page === 1 ? `${jobsUrl}?per_page=100` : `${jobsUrl}?page=${page}`,
+      createMockResponse(
+        { total_count: 101, jobs: [{ id: page }] },
+        200,
+        "OK",
+        {
+          "Link": `<${jobsUrl}?page=${page + 1}>; rel="next"`,
+        },
+      ),
+    );
+  }
+
+  const jobs = await client.listJobs(123);
+
+  assertEquals(jobs.length, 100);
+  assertEquals(jobs.truncated, true);
+});
+
 Deno.test("downloadArtifact success", async () => {
   const mockFetcher = new MockFileFetcher();
-  const client = new RealGitHubApiClient(mockFetcher, "test-token");
+  const client = createClient(mockFetcher);
 
   const mockBlob = new Blob(["fake zip content"], { type: "application/zip" });
   mockFetcher.mockResponse(
@@ -244,7 +428,7 @@ Deno.test("downloadArtifact success", async () => {
 
 Deno.test("downloadArtifact failure", async () => {
   const mockFetcher = new MockFileFetcher();
-  const client = new RealGitHubApiClient(mockFetcher, "test-token");
+  const client = createClient(mockFetcher);
 
   mockFetcher.mockResponse(
     "https://api.github.com/artifacts/1/zip",
@@ -257,3 +441,198 @@ Deno.test("downloadArtifact failure", async () => {
     "Failed to download artifact: 410 Gone",
   );
 });
+
+Deno.test("uses configured repository in urls", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = new RealGitHubApiClient(
+    mockFetcher,
+    new StaticTokenProvider("test-token"),
+    { owner: "denoland", name: "std" },
+    new RateLimitTracker(),
+  );
+
+  mockFetcher.mockResponse(
+    "https://api.github.com/repos/denoland/std/actions/workflows/ci.yml/runs?per_page=30&page=1",
+    createMockResponse({ total_count: 3, workflow_runs: [] }),
+  );
+
+  const result = await client.listWorkflowRuns("ci.yml", 30, 1);
+
+  assertEquals(result.totalCount, 3);
+});
+
+Deno.test("listJobs for attempt", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = createClient(mockFetcher);
+
+  mockFetcher.mockResponse(
+    "https://api.github.com/repos/denoland/deno/actions/runs/123/attempts/2/jobs?per_page=100",
+    createMockResponse({
+      total_count: 1,
+      jobs: [{ id: 1, run_id: 123, name: "test debug linux-x86_64" }],
+    }),
+  );
+
+  const result = await client.listJobs(123, 2);
+
+  assertEquals(result.length, 1);
+  assertEquals(result[0].name, "test debug linux-x86_64");
+});
+
+Deno.test("downloadJobLogs success", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = createClient(mockFetcher);
+
+  mockFetcher.mockResponse(
+    "https://api.github.com/repos/denoland/deno/actions/jobs/42/logs",
+    new Response("log line 1\nlog line 2"),
+  );
+
+  const result = await client.downloadJobLogs(42);
+
+  assertEquals(result, "log line 1\nlog line 2");
+});
+
+Deno.test("downloadJobLogs failure", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = createClient(mockFetcher);
+
+  mockFetcher.mockResponse(
+    "https://api.github.com/repos/denoland/deno/actions/jobs/42/logs",
+    new Response(null, { status: 410, statusText: "Gone" }),
+  );
+
+  await assertRejects(
+    () => client.downloadJobLogs(42),
+    Error,
+    "Failed to download job logs: 410 Gone",
+  );
+});
+
+const runsUrl =
+  "https://api.github.com/repos/denoland/deno/actions/workflows/ci.yml/runs?per_page=30&page=1";
+
+function rateLimitHeaders(remaining: number, resetAt: Date) {
+  return {
+    "x-ratelimit-limit": "5000",
+    "x-ratelimit-remaining": remaining.toString(),
+    "x-ratelimit-used": (5000 - remaining).toString(),
+    "x-ratelimit-reset": Math.floor(resetAt.getTime() / 1000).toString(),
+  };
+}
+
+Deno.test("tracks rate limit budget from response headers", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const rateLimit = new RateLimitTracker();
+  const client = createClient(mockFetcher, rateLimit);
+  const resetAt = new Date(Math.floor(Date.now() / 1000) * 1000 + 60_000);
+
+  mockFetcher.mockResponse(
+    runsUrl,
+    new Response(JSON.stringify({ total_count: 0, workflow_runs: [] }), {
+      headers: rateLimitHeaders(4321, resetAt),
+    }),
+  );
+
+  await client.listWorkflowRuns("ci.yml", 30, 1);
+
+  assertEquals(rateLimit.budget, {
+    resource: "core",
+    limit: 5000,
+    remaining: 4321,
+    used: 679,
+    resetAt,
+  });
+});
+
+Deno.test("retries after Retry-After on secondary rate limit", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = createClient(mockFetcher);
+
+  mockFetcher.mockResponse(
+    runsUrl,
+    new Response(null, {
+      status: 403,
+      statusText: "Forbidden",
+      headers: { "retry-after": "0" },
+    }),
+  );
+  mockFetcher.mockResponse(
+    runsUrl,
+    createMockResponse({ total_count: 7, workflow_runs: [] }),
+  );
+
+  const result = await client.listWorkflowRuns("ci.yml", 30, 1);
+
+  assertEquals(result.totalCount, 7);
+  assertEquals(mockFetcher.requestCount, 2);
+});
+
+Deno.test("throws RateLimitedError when budget is exhausted", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const rateLimit = new RateLimitTracker();
+  const client = createClient(mockFetcher, rateLimit);
+  const resetAt = new Date(Date.now() + 30 * 60_000);
+
+  mockFetcher.mockResponse(
+    runsUrl,
+    new Response(null, {
+      status: 403,
+      statusText: "Forbidden",
+      headers: rateLimitHeaders(0, resetAt),
+    }),
+  );
+
+  const error = await assertRejects(
+    () => client.listWorkflowRuns("ci.yml", 30, 1),
+    RateLimitedError,
+  );
+  assertEquals(
+    error.retryAt.getTime(),
+    Math.floor(resetAt.getTime() / 1000) * 1000,
+  );
+
+  // subsequent requests fail without hitting the api
+  await assertRejects(
+    () => client.listWorkflowRuns("ci.yml", 30, 1),
+    RateLimitedError,
+  );
+  assertEquals(mockFetcher.requestCount, 1);
+});
+
+Deno.test("gives up after repeated rate limit responses", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = createClient(mockFetcher);
+
+  mockFetcher.mockResponse(
+    runsUrl,
+    new Response(null, {
+      status: 429,
+      statusText: "Too Many Requests",
+      headers: { "retry-after": "0" },
+    }),
+  );
+
+  await assertRejects(
+    () => client.listWorkflowRuns("ci.yml", 30, 1),
+    RateLimitedError,
+  );
+  assert(mockFetcher.requestCount > 1);
+});
+
+Deno.test("does not treat permission errors as rate limits", async () => {
+  const mockFetcher = new MockFileFetcher();
+  const client = createClient(mockFetcher);
+
+  mockFetcher.mockResponse(
+    runsUrl,
+    new Response(null, { status: 403, statusText: "Forbidden" }),
+  );
+
+  await assertRejects(
+    () => client.listWorkflowRuns("ci.yml", 30, 1),
+    Error,
+    "Failed to fetch workflow runs: 403 Forbidden",
+  );
+  assertEquals(mockFetcher.requestCount, 1);
+});
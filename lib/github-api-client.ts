@@ -1,8 +1,25 @@
+import type { Repository } from "./config.ts";
 import type { FileFetcher } from "./file-fetcher.ts";
+import type { TokenProvider } from "./github-auth.ts";
+import {
+  type PaginatedList,
+  type PaginationResult,
+  parseNextLink,
+} from "./pagination.ts";
+import {
+  getRetryAt,
+  isRateLimitedResponse,
+  RateLimitedError,
+  type RateLimitTracker,
+} from "./rate-limit.ts";
 import type { ExtractInterface } from "./types.ts";
+import { delay } from "./utils/delay.ts";
 
-const OWNER = "denoland";
-const REPO = "deno";
+// wait for short rate limit backoffs, but fail fast for long ones
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RATE_LIMIT_WAIT_MS = 10_000;
+// guards against following `Link` headers forever
+const DEFAULT_MAX_PAGES = 100;
 
 export interface WorkflowRun {
   id: number;
@@ -16,6 +33,53 @@ export interface WorkflowRun {
   event: string;
   head_branch: string;
   head_sha: string;
+  run_attempt: number;
+  run_started_at: string;
+  /** Empty for runs that weren't triggered by a pull request or from a fork. */
+  pull_requests: PullRequestRef[];
+  actor: GitHubUser;
+  head_commit: HeadCommit | null;
+  head_repository: RepositoryRef | null;
+}
+
+export interface GitHubUser {
+  login: string;
+  html_url: string;
+  avatar_url: string;
+}
+
+export interface PullRequestRef {
+  id: number;
+  number: number;
+  url: string;
+  head: { ref: string; sha: string };
+  base: { ref: string; sha: string };
+}
+
+export interface HeadCommit {
+  id: string;
+  message: string;
+  timestamp: string;
+  author: { name: string; email: string } | null;
+}
+
+export interface RepositoryRef {
+  id: number;
+  name: string;
+  full_name: string;
+  html_url: string;
+}
+
+/** Filters supported by the list workflow runs api. */
+export interface WorkflowRunFilters {
+  branch?: string;
+  event?: string;
+  /** A status (ex. `in_progress`) or conclusion (ex. `failure`). */
+  status?: string;
+  /** Login of the user that triggered the run. */
+  actor?: string;
+  /** Date range in GitHub's search syntax (ex. `2025-01-01..2025-01-31`). */
+  created?: string;
 }
 
 interface WorkflowRunsResponse {
@@ -69,39 +133,87 @@ export type GitHubApiClient = ExtractInterface<RealGitHubApiClient>;
 
 export class RealGitHubApiClient {
   readonly #fileFetcher: FileFetcher;
-  readonly #token: string | undefined;
-
-  constructor(fileFetcher: FileFetcher, token: string | undefined) {
+  readonly #tokenProvider: TokenProvider;
+  readonly #repoUrl: string;
+  readonly #rateLimit: RateLimitTracker;
+  readonly #signal: AbortSignal | undefined;
+
+  constructor(
+    fileFetcher: FileFetcher,
+    tokenProvider: TokenProvider,
+    repository: Repository,
+    rateLimit: RateLimitTracker,
+    signal?: AbortSignal,
+  ) {
     this.#fileFetcher = fileFetcher;
-    this.#token = token;
+    this.#tokenProvider = tokenProvider;
+    this.#rateLimit = rateLimit;
+    this.#signal = signal;
+    this.#repoUrl =
+      `https://api.github.com/repos/${repository.owner}/${repository.name}`;
   }
 
-  #getHeaders(): HeadersInit {
+  async #getHeaders(): Promise<HeadersInit> {
     const obj: Record<string, string> = {
       "Accept": "application/vnd.github+json",
       "X-GitHub-Api-Version": "2022-11-28",
     };
-    if (this.#token) {
-      obj["Authorization"] = `Bearer ${this.#token}`;
+    const token = await this.#tokenProvider.getToken();
+    if (token) {
+      obj["Authorization"] = `Bearer ${token}`;
     }
     return obj;
   }
 
+  async #get(url: string | URL): Promise<Response> {
+    for (let attempt = 0;; attempt++) {
+      const blockedUntil = this.#rateLimit.blockedUntil();
+      if (blockedUntil != null) {
+        const waitMs = blockedUntil.getTime() - Date.now();
+        if (waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+          throw new RateLimitedError(blockedUntil);
+        }
+        await delay(waitMs, this.#signal);
+      }
+
+      const response = await this.#fileFetcher.get(
+        url,
+        await this.#getHeaders(),
+        this.#signal,
+      );
+      this.#rateLimit.update(response.headers);
+      if (!isRateLimitedResponse(response)) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      const retryAt = getRetryAt(response, attempt);
+      this.#rateLimit.block(retryAt);
+      if (attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw new RateLimitedError(retryAt);
+      }
+    }
+  }
+
+  /** Lists the runs of a workflow, which is a workflow file name or id. */
   async listWorkflowRuns(
+    workflow: string,
     perPage = 30,
     page = 1,
-    branch?: string,
+    filters: WorkflowRunFilters = {},
   ): Promise<{ runs: WorkflowRun[]; totalCount: number }> {
     const url = new URL(
-      `https://api.github.com/repos/${OWNER}/${REPO}/actions/runs`,
+      `${this.#repoUrl}/actions/workflows/${encodeURIComponent(workflow)}/runs`,
     );
     url.searchParams.set("per_page", perPage.toString());
     url.searchParams.set("page", page.toString());
-    if (branch) {
-      url.searchParams.set("branch", branch);
+    for (const [name, value] of Object.entries(filters)) {
+      if (value) {
+        url.searchParams.set(name, value);
+      }
     }
 
-    const response = await this.#fileFetcher.get(url, this.#getHeaders());
+    const response = await this.#get(url);
 
     if (!response.ok) {
       throw new Error(
@@ -116,10 +228,15 @@ export class RealGitHubApiClient {
     };
   }
 
-  async getWorkflowRun(runId: number): Promise<WorkflowRun | undefined> {
-    const response = await this.#fileFetcher.get(
-      `https://api.github.com/repos/${OWNER}/${REPO}/actions/runs/${runId}`,
-      this.#getHeaders(),
+  /** Gets a workflow run, which is the latest attempt unless specified. */
+  async getWorkflowRun(
+    runId: number,
+    attempt?: number,
+  ): Promise<WorkflowRun | undefined> {
+    const response = await this.#get(
+      attempt == null
+        ? `${this.#repoUrl}/actions/runs/${runId}`
+        : `${this.#repoUrl}/actions/runs/${runId}/attempts/${attempt}`,
     );
 
     if (response.status === 404) {
@@ -135,78 +252,106 @@ export class RealGitHubApiClient {
     return await response.json();
   }
 
-  async listArtifacts(runId: number): Promise<Artifact[]> {
-    const allArtifacts: Artifact[] = [];
-    const maxPages = 10;
-
-    for (let page = 1; page <= maxPages; page++) {
-      const url = new URL(
-        `https://api.github.com/repos/${OWNER}/${REPO}/actions/runs/${runId}/artifacts`,
-      );
-      url.searchParams.set("per_page", "100");
-      url.searchParams.set("page", page.toString());
-
-      const response = await this.#fileFetcher.get(url, this.#getHeaders());
-
-      if (!response.ok) {
-        throw new Error(
-          `Failed to list artifacts: ${response.status} ${response.statusText}`,
-        );
-      }
+  listArtifacts(runId: number): Promise<PaginatedList<Artifact>> {
+    const url = new URL(`${this.#repoUrl}/actions/runs/${runId}/artifacts`);
+    url.searchParams.set("per_page", "100");
+    return collect(
+      this.paginate(url, (data: ArtifactsListResponse) => data.artifacts, {
+        errorMessage: "Failed to list artifacts",
+      }),
+    );
+  }
 
-      const data: ArtifactsListResponse = await response.json();
-      allArtifacts.push(...data.artifacts);
+  async downloadArtifact(archiveDownloadUrl: string): Promise<Blob> {
+    const response = await this.#get(archiveDownloadUrl);
 
-      if (allArtifacts.length >= data.total_count) {
-        break;
-      }
+    if (!response.ok) {
+      throw new Error(
+        `Failed to download artifact: ${response.status} ${response.statusText}`,
+      );
     }
 
-    return allArtifacts;
+    return await response.blob();
   }
 
-  async downloadArtifact(archiveDownloadUrl: string): Promise<Blob> {
-    const response = await this.#fileFetcher.get(
-      archiveDownloadUrl,
-      this.#getHeaders(),
+  async downloadJobLogs(jobId: number): Promise<string> {
+    const response = await this.#get(
+      `${this.#repoUrl}/actions/jobs/${jobId}/logs`,
     );
 
     if (!response.ok) {
       throw new Error(
-        `Failed to download artifact: ${response.status} ${response.statusText}`,
+        `Failed to download job logs: ${response.status} ${response.statusText}`,
       );
     }
 
-    return await response.blob();
+    return await response.text();
   }
 
-  async listJobs(runId: number): Promise<WorkflowJob[]> {
-    const allJobs: WorkflowJob[] = [];
-    const maxPages = 10;
+  /** Lists the jobs of a run, which is the latest attempt unless specified. */
+  listJobs(
+    runId: number,
+    attempt?: number,
+  ): Promise<PaginatedList<WorkflowJob>> {
+    const url = new URL(
+      attempt == null
+        ? `${this.#repoUrl}/actions/runs/${runId}/jobs`
+        : `${this.#repoUrl}/actions/runs/${runId}/attempts/${attempt}/jobs`,
+    );
+    url.searchParams.set("per_page", "100");
+    return collect(
+      this.paginate(url, (data: JobsListResponse) => data.jobs, {
+        errorMessage: "Failed to list jobs",
+      }),
+    );
+  }
 
-    for (let page = 1; page <= maxPages; page++) {
-      const url = new URL(
-        `https://api.github.com/repos/${OWNER}/${REPO}/actions/runs/${runId}/jobs`,
-      );
-      url.searchParams.set("per_page", "100");
-      url.searchParams.set("page", page.toString());
+  /**
+   * Iterates over the items of a paginated endpoint, following the `Link`
+   * header's next url until there are no pages left. Stops after
+   * `maxPages` pages and returns whether pages were left.
+   */
+  async *paginate<TPage, TItem>(
+    url: string | URL,
+    getItems: (page: TPage) => TItem[],
+    options: { errorMessage?: string; maxPages?: number } = {},
+  ): AsyncGenerator<TItem, PaginationResult> {
+    const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+    let nextUrl: string | URL | undefined = url;
+    for (let page = 1; nextUrl != null; page++) {
+      if (page > maxPages) {
+        return { truncated: true };
+      }
 
-      const response = await this.#fileFetcher.get(url, this.#getHeaders());
+      const response = await this.#get(nextUrl);
 
       if (!response.ok) {
+        await response.body?.cancel();
         throw new Error(
-          `Failed to list jobs: ${response.status} ${response.statusText}`,
+          `${
+            options.errorMessage ?? "Failed to fetch page"
+          }: ${response.status} ${response.statusText}`,
         );
       }
 
-      const data: JobsListResponse = await response.json();
-      allJobs.push(...data.jobs);
-
-      if (allJobs.length >= data.total_count) {
-        break;
-      }
+      nextUrl = parseNextLink(response.headers.get("link"));
+      yield* getItems(await response.json());
     }
+    return { truncated: false };
+  }
+}
 
-    return allJobs;
+async function collect<T>(
+  pages: AsyncGenerator<T, PaginationResult>,
+): Promise<PaginatedList<T>> {
+  const items: PaginatedList<T> = [];
+  let next = await pages.next();
+  while (!next.done) {
+    items.push(next.value);
+    next = await pages.next();
+  }
+  if (next.value.truncated) {
+    items.truncated = true;
   }
+  return items;
 }
@@ -0,0 +1,169 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  GitHubAppTokenProvider,
+  StaticTokenProvider,
+  wrapPkcs1InPkcs8,
+} from "./github-auth.ts";
+
+async function generateKeyPair() {
+  const keyPair = await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"],
+  );
+  const pkcs8 = new Uint8Array(
+    await crypto.subtle.exportKey("pkcs8", keyPair.privateKey),
+  );
+  return { publicKey: keyPair.publicKey, pkcs8 };
+}
+
+function toPem(der: Uint8Array, label: string) {
+  const base64 = btoa(String.fromCharCode(...der));
+  const lines = base64.match(/.{1,64}/g)!.join("\n");
+  return `-----BEGIN ${label}-----\n${lines}\n-----END ${label}-----\n`;
+}
+
+function base64UrlDecode(text: string) {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+interface FakeTokenServer extends AsyncDisposable {
+  apiUrl: string;
+  requests: { path: string; jwtPayload: Record<string, unknown> }[];
+}
+
+function startFakeTokenServer(
+  publicKey: CryptoKey,
+  getResponse: () => Response,
+): FakeTokenServer {
+  const requests: FakeTokenServer["requests"] = [];
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    async (request) => {
+      const jwt = request.headers.get("authorization")!.replace(
+        "Bearer ",
+        "",
+      );
+      const [header, payload, signature] = jwt.split(".");
+      const isValid = await crypto.subtle.verify(
+        "RSASSA-PKCS1-v1_5",
+        publicKey,
+        base64UrlDecode(signature),
+        new TextEncoder().encode(`${header}.${payload}`),
+      );
+      if (!isValid) {
+        return new Response(null, { status: 401, statusText: "Unauthorized" });
+      }
+      requests.push({
+        path: new URL(request.url).pathname,
+        jwtPayload: JSON.parse(new TextDecoder().decode(
+          base64UrlDecode(payload),
+        )),
+      });
+      return getResponse();
+    },
+  );
+  return {
+    apiUrl: `http://127.0.0.1:${server.addr.port}`,
+    requests,
+    async [Symbol.asyncDispose]() {
+      await server.shutdown();
+    },
+  };
+}
+
+function tokenResponse(token: string, expiresInMs: number) {
+  return Response.json({
+    token,
+    expires_at: new Date(Date.now() + expiresInMs).toISOString(),
+  });
+}
+
+Deno.test("static token provider", async () => {
+  assertEquals(await new StaticTokenProvider("abc").getToken(), "abc");
+  assertEquals(await new StaticTokenProvider(undefined).getToken(), undefined);
+});
+
+Deno.test("wraps PKCS#1 key in PKCS#8", async () => {
+  const { pkcs8 } = await generateKeyPair();
+  // strip the PKCS#8 header to get the inner PKCS#1 key
+  const pkcs1 = pkcs8.slice(26);
+
+  assertEquals(wrapPkcs1InPkcs8(pkcs1), pkcs8);
+});
+
+Deno.test("exchanges app jwt for installation token", async () => {
+  const { publicKey, pkcs8 } = await generateKeyPair();
+  let tokenCount = 0;
+  await using server = startFakeTokenServer(
+    publicKey,
+    () => tokenResponse(`token-${++tokenCount}`, 60 * 60 * 1000),
+  );
+  const provider = new GitHubAppTokenProvider({
+    appId: "123",
+    privateKey: toPem(pkcs8.slice(26), "RSA PRIVATE KEY"),
+    installationId: "456",
+    apiUrl: server.apiUrl,
+  });
+
+  const [token1, token2] = await Promise.all([
+    provider.getToken(),
+    provider.getToken(),
+  ]);
+  const token3 = await provider.getToken();
+
+  assertEquals([token1, token2, token3], ["token-1", "token-1", "token-1"]);
+  assertEquals(server.requests.length, 1);
+  assertEquals(
+    server.requests[0].path,
+    "/app/installations/456/access_tokens",
+  );
+  assertEquals(server.requests[0].jwtPayload.iss, "123");
+});
+
+Deno.test("refreshes installation token before it expires", async () => {
+  const { publicKey, pkcs8 } = await generateKeyPair();
+  let tokenCount = 0;
+  await using server = startFakeTokenServer(
+    publicKey,
+    // expires within the refresh margin
+    () => tokenResponse(`token-${++tokenCount}`, 60 * 1000),
+  );
+  const provider = new GitHubAppTokenProvider({
+    appId: "123",
+    privateKey: toPem(pkcs8, "PRIVATE KEY"),
+    installationId: "456",
+    apiUrl: server.apiUrl,
+  });
+
+  assertEquals(await provider.getToken(), "token-1");
+  assertEquals(await provider.getToken(), "token-2");
+  assertEquals(server.requests.length, 2);
+});
+
+Deno.test("throws when installation token request fails", async () => {
+  const { pkcs8 } = await generateKeyPair();
+  const { publicKey: otherPublicKey } = await generateKeyPair();
+  await using server = startFakeTokenServer(
+    otherPublicKey,
+    () => tokenResponse("token", 60 * 60 * 1000),
+  );
+  const provider = new GitHubAppTokenProvider({
+    appId: "123",
+    privateKey: toPem(pkcs8, "PRIVATE KEY"),
+    installationId: "456",
+    apiUrl: server.apiUrl,
+  });
+
+  await assertRejects(
+    () => provider.getToken(),
+    Error,
+    "Failed to create installation token: 401 Unauthorized",
+  );
+});
@@ -0,0 +1,164 @@
+export interface TokenProvider {
+  getToken(): Promise<string | undefined>;
+}
+
+export class StaticTokenProvider implements TokenProvider {
+  readonly #token: string | undefined;
+
+  constructor(token: string | undefined) {
+    this.#token = token;
+  }
+
+  getToken() {
+    return Promise.resolve(this.#token);
+  }
+}
+
+export interface GitHubAppConfig {
+  appId: string;
+  /** PEM encoded private key in PKCS#1 or PKCS#8 format. */
+  privateKey: string;
+  installationId: string;
+  apiUrl: string;
+}
+
+// refresh tokens a while before they expire so a token
+// never expires in the middle of handling a request
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Authenticates as a GitHub App installation. This mints a JWT signed with
+ * the app's private key, exchanges it for an installation access token and
+ * caches that token until it's close to expiring.
+ */
+export class GitHubAppTokenProvider implements TokenProvider {
+  readonly #config: GitHubAppConfig;
+  #signingKey: Promise<CryptoKey> | undefined;
+  #token: { value: string; expiresAt: Date } | undefined;
+  #pendingToken: Promise<string> | undefined;
+
+  constructor(config: GitHubAppConfig) {
+    this.#config = config;
+  }
+
+  getToken(): Promise<string> {
+    if (
+      this.#token != null &&
+      this.#token.expiresAt.getTime() - Date.now() > REFRESH_MARGIN_MS
+    ) {
+      return Promise.resolve(this.#token.value);
+    }
+    // share the request when several callers need a token at once
+    return this.#pendingToken ??
+      (this.#pendingToken = this.#createInstallationToken().finally(() => {
+        this.#pendingToken = undefined;
+      }));
+  }
+
+  async #createInstallationToken(): Promise<string> {
+    const jwt = await this.#createJwt();
+    const response = await fetch(
+      `${this.#config.apiUrl}/app/installations/${this.#config.installationId}/access_tokens`,
+      {
+        method: "POST",
+        headers: {
+          "Accept": "application/vnd.github+json",
+          "X-GitHub-Api-Version": "2022-11-28",
+          "Authorization": `Bearer ${jwt}`,
+        },
+      },
+    );
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(
+        `Failed to create installation token: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const data: { token: string; expires_at: string } = await response.json();
+    this.#token = { value: data.token, expiresAt: new Date(data.expires_at) };
+    return data.token;
+  }
+
+  async #createJwt() {
+    const now = Math.floor(Date.now() / 1000);
+    const header = { alg: "RS256", typ: "JWT" };
+    const payload = {
+      // backdate to allow for clock drift
+      iat: now - 60,
+      // max allowed by GitHub is 10 minutes
+      exp: now + 9 * 60,
+      iss: this.#config.appId,
+    };
+    const encoder = new TextEncoder();
+    const unsigned = `${
+      base64UrlEncode(encoder.encode(JSON.stringify(header)))
+    }.${base64UrlEncode(encoder.encode(JSON.stringify(payload)))}`;
+    const signature = await crypto.subtle.sign(
+      "RSASSA-PKCS1-v1_5",
+      await this.#getSigningKey(),
+      encoder.encode(unsigned),
+    );
+    return `${unsigned}.${base64UrlEncode(new Uint8Array(signature))}`;
+  }
+
+  #getSigningKey() {
+    return this.#signingKey ??
+      (this.#signingKey = importPrivateKey(this.#config.privateKey));
+  }
+}
+
+export function importPrivateKey(pem: string): Promise<CryptoKey> {
+  const isPkcs1 = pem.includes("BEGIN RSA PRIVATE KEY");
+  const base64 = pem
+    .replace(/-----(BEGIN|END) (RSA )?PRIVATE KEY-----/g, "")
+    .replace(/\s/g, "");
+  const der = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  return crypto.subtle.importKey(
+    "pkcs8",
+    isPkcs1 ? wrapPkcs1InPkcs8(der) : der,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+}
+
+/**
+ * GitHub issues PKCS#1 keys, but Web Crypto only imports PKCS#8, so
+ * this wraps the key in a PKCS#8 `PrivateKeyInfo` structure.
+ */
+export function wrapPkcs1InPkcs8(
+  pkcs1: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  const version = [0x02, 0x01, 0x00];
+  // SEQUENCE { OID 1.2.840.113549.1.1.1 (rsaEncryption), NULL }
+  const rsaOid = [0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01];
+  const algorithm = [0x30, 0x0d, ...rsaOid, 0x01, 0x05, 0x00];
+  const octetString = [0x04, ...derLength(pkcs1.length), ...pkcs1];
+  const content = [...version, ...algorithm, ...octetString];
+  return new Uint8Array([0x30, ...derLength(content.length), ...content]);
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) {
+    return [length];
+  }
+  const bytes: number[] = [];
+  while (length > 0) {
+    bytes.unshift(length & 0xff);
+    length >>= 8;
+  }
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function base64UrlEncode(data: Uint8Array) {
+  let binary = "";
+  for (const byte of data) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
@@ -0,0 +1,148 @@
+import { assertEquals } from "@std/assert";
+import { SqliteHistoryDatabase } from "./history-database.ts";
+import { createWorkflowRun } from "./testing.ts";
+import type { RunTestResults } from "./test-results-downloader.ts";
+
+const repository = { owner: "denoland", name: "deno" };
+
+function createResults(failed: boolean): RunTestResults {
+  return {
+    results: [{
+      name: "linux",
+      platform: { os: "linux" },
+      tests: [{
+        name: "parent",
+        path: "a.ts",
+        duration: 30,
+        subTests: [
+          { name: "child", path: "a.ts", duration: 10, flakyCount: 2 },
+          {
+            name: "other",
+            path: "a.ts",
+            duration: 20,
+            ...(failed ? { failed: true } : {}),
+          },
+        ],
+      }, {
+        name: "ignored",
+        path: "b.ts",
+        ignored: true,
+        sourceFile: "shard-2.json",
+      }],
+    }],
+    artifacts: [{
+      artifactName: "test-results-linux.json",
+      resultsName: "linux",
+      status: "downloaded",
+      expiresAt: "2025-04-01T00:00:00Z",
+    }],
+  };
+}
+
+Deno.test("round trips run results", () => {
+  const db = new SqliteHistoryDatabase(":memory:");
+  const results = createResults(true);
+  db.saveRun(
+    repository,
+    createWorkflowRun({ id: 1, created_at: "2025-01-01T00:00:00Z" }),
+    results,
+  );
+
+  assertEquals(db.getRunResults(repository, 1), results);
+  assertEquals(db.getRunResults(repository, 2), undefined);
+  assertEquals(
+    db.getRunResults({ owner: "denoland", name: "std" }, 1),
+    undefined,
+  );
+  assertEquals(db.getRun(repository, 1)?.runAttempt, 1);
+  assertEquals(db.getRun(repository, 1)?.hasFailedArtifacts, false);
+  db.close();
+});
+
+Deno.test("replaces the results of a run when saved again", () => {
+  const db = new SqliteHistoryDatabase(":memory:");
+  const run = createWorkflowRun({ id: 1, created_at: "2025-01-01T00:00:00Z" });
+  db.saveRun(repository, run, createResults(true));
+  db.saveRun(repository, { ...run, run_attempt: 2 }, createResults(false));
+
+  assertEquals(db.getRunResults(repository, 1), createResults(false));
+  assertEquals(db.getRun(repository, 1)?.runAttempt, 2);
+  db.close();
+});
+
+Deno.test("gets the history of a test", () => {
+  const db = new SqliteHistoryDatabase(":memory:");
+  db.saveRun(
+    repository,
+    createWorkflowRun({ id: 1, created_at: "2025-01-01T00:00:00Z" }),
+    createResults(true),
+  );
+  db.saveRun(
+    repository,
+    createWorkflowRun({ id: 2, created_at: "2025-01-02T00:00:00Z" }),
+    createResults(false),
+  );
+
+  const history = db.getTestHistory(repository, {
+    path: "a.ts",
+    name: "other",
+  });
+  assertEquals(history.map((entry) => [entry.runId, entry.failed]), [
+    [2, false],
+    [1, true],
+  ]);
+  assertEquals(history[0].jobName, "linux");
+  assertEquals(history[0].duration, 20);
+  assertEquals(
+    db.getTestHistory(repository, { path: "a.ts", name: "child" })
+      .map((entry) => entry.flakyCount),
+    [2, 2],
+  );
+  db.close();
+});
+
+Deno.test("reports runs with failed artifacts", () => {
+  const db = new SqliteHistoryDatabase(":memory:");
+  db.saveRun(
+    repository,
+    createWorkflowRun({ id: 1, created_at: "2025-01-01T00:00:00Z" }),
+    {
+      results: [],
+      artifacts: [{
+        artifactName: "test-results-linux.json",
+        resultsName: "linux",
+        status: "failed",
+        expiresAt: "2025-04-01T00:00:00Z",
+        error: { name: "Error", message: "bad zip" },
+      }],
+    },
+  );
+
+  assertEquals(db.getRun(repository, 1)?.hasFailedArtifacts, true);
+  assertEquals(db.getRunResults(repository, 1)?.artifacts[0].error, {
+    name: "Error",
+    message: "bad zip",
+  });
+  db.close();
+});
+
+Deno.test("round trips artifact details of truncated runs", () => {
+  const db = new SqliteHistoryDatabase(":memory:");
+  const results = createResults(false);
+  results.truncated = true;
+  results.artifacts[0].warnings = [
+    { path: "/tests/2/name", message: "must be a string" },
+  ];
+  results.artifacts[0].files = [
+    { fileName: "shard-1.json", testCount: 1 },
+    { fileName: "shard-2.json", testCount: 1 },
+  ];
+  db.saveRun(
+    repository,
+    createWorkflowRun({ id: 1, created_at: "2025-01-01T00:00:00Z" }),
+    results,
+  );
+
+  assertEquals(db.getRunResults(repository, 1), results);
+  db.close();
+});
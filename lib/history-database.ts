@@ -0,0 +1,361 @@
+import { DatabaseSync } from "node:sqlite";
+import type { Repository } from "./config.ts";
+import type { WorkflowRun } from "./github-api-client.ts";
+import { parseResultsPlatform } from "./platform.ts";
+import type {
+  ArtifactResult,
+  JobTestResults,
+  RecordedTestResult,
+  RunTestResults,
+} from "./test-results-downloader.ts";
+import type { ExtractInterface } from "./types.ts";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS runs (
+  repository TEXT NOT NULL,
+  run_id INTEGER NOT NULL,
+  run_attempt INTEGER NOT NULL,
+  workflow_name TEXT NOT NULL,
+  head_branch TEXT NOT NULL,
+  head_sha TEXT NOT NULL,
+  event TEXT NOT NULL,
+  conclusion TEXT,
+  created_at TEXT NOT NULL,
+  ingested_at TEXT NOT NULL,
+  truncated INTEGER NOT NULL,
+  PRIMARY KEY (repository, run_id)
+);
+CREATE TABLE IF NOT EXISTS artifacts (
+  repository TEXT NOT NULL,
+  run_id INTEGER NOT NULL,
+  artifact_name TEXT NOT NULL,
+  results_name TEXT NOT NULL,
+  status TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  error_name TEXT,
+  error_message TEXT,
+  warnings TEXT,
+  files TEXT,
+  PRIMARY KEY (repository, run_id, artifact_name)
+);
+CREATE TABLE IF NOT EXISTS jobs (
+  repository TEXT NOT NULL,
+  run_id INTEGER NOT NULL,
+  job_index INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  PRIMARY KEY (repository, run_id, job_index)
+);
+CREATE TABLE IF NOT EXISTS tests (
+  repository TEXT NOT NULL,
+  run_id INTEGER NOT NULL,
+  job_index INTEGER NOT NULL,
+  test_index INTEGER NOT NULL,
+  parent_index INTEGER,
+  name TEXT NOT NULL,
+  path TEXT NOT NULL,
+  duration REAL,
+  failed INTEGER NOT NULL,
+  ignored INTEGER NOT NULL,
+  flaky_count INTEGER NOT NULL,
+  source_file TEXT,
+  PRIMARY KEY (repository, run_id, job_index, test_index)
+);
+CREATE INDEX IF NOT EXISTS tests_by_name ON tests (repository, path, name);
+`;
+
+export interface StoredRun {
+  runId: number;
+  runAttempt: number;
+  workflowName: string;
+  headBranch: string;
+  headSha: string;
+  event: string;
+  conclusion: string | null;
+  createdAt: string;
+  ingestedAt: string;
+  /** Whether any of the run's artifacts failed to download or parse. */
+  hasFailedArtifacts: boolean;
+}
+
+export interface TestHistoryEntry {
+  runId: number;
+  runCreatedAt: string;
+  headBranch: string;
+  headSha: string;
+  jobName: string;
+  duration: number | undefined;
+  failed: boolean;
+  ignored: boolean;
+  flakyCount: number;
+}
+
+export type HistoryDatabase = ExtractInterface<SqliteHistoryDatabase>;
+
+/**
+ * Stores the test results of ingested runs so they can be queried
+ * after the artifacts expire.
+ */
+export class SqliteHistoryDatabase {
+  readonly #db: DatabaseSync;
+
+  /** Opens the database at the provided path or `:memory:`. */
+  constructor(path: string) {
+    this.#db = new DatabaseSync(path);
+    this.#db.exec(SCHEMA);
+  }
+
+  getRun(repository: Repository, runId: number): StoredRun | undefined {
+    const row = this.#db.prepare(
+      `SELECT runs.*, EXISTS (
+         SELECT 1 FROM artifacts
+         WHERE artifacts.repository = runs.repository
+           AND artifacts.run_id = runs.run_id
+           AND artifacts.status = 'failed'
+       ) AS has_failed_artifacts
+       FROM runs WHERE repository = ? AND run_id = ?`,
+    ).get(getRepositoryKey(repository), runId);
+    if (row == null) {
+      return undefined;
+    }
+    return {
+      runId: Number(row.run_id),
+      runAttempt: Number(row.run_attempt),
+      workflowName: String(row.workflow_name),
+      headBranch: String(row.head_branch),
+      headSha: String(row.head_sha),
+      event: String(row.event),
+      conclusion: row.conclusion == null ? null : String(row.conclusion),
+      createdAt: String(row.created_at),
+      ingestedAt: String(row.ingested_at),
+      hasFailedArtifacts: Number(row.has_failed_artifacts) === 1,
+    };
+  }
+
+  /** Saves the results of a run, replacing any previously saved results. */
+  saveRun(
+    repository: Repository,
+    run: WorkflowRun,
+    { results, artifacts, truncated }: RunTestResults,
+  ): void {
+    const repo = getRepositoryKey(repository);
+    this.#transaction(() => {
+      this.#deleteRun(repo, run.id);
+      this.#db.prepare(
+        `INSERT INTO runs (repository, run_id, run_attempt, workflow_name,
+           head_branch, head_sha, event, conclusion, created_at, ingested_at,
+           truncated)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ).run(
+        repo,
+        run.id,
+        run.run_attempt,
+        run.name,
+        run.head_branch,
+        run.head_sha,
+        run.event,
+        run.conclusion,
+        run.created_at,
+        new Date().toISOString(),
+        truncated ? 1 : 0,
+      );
+
+      const insertArtifact = this.#db.prepare(
+        `INSERT INTO artifacts (repository, run_id, artifact_name, results_name,
+           status, expires_at, error_name, error_message, warnings, files)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      for (const artifact of artifacts) {
+        insertArtifact.run(
+          repo,
+          run.id,
+          artifact.artifactName,
+          artifact.resultsName,
+          artifact.status,
+          artifact.expiresAt,
+          artifact.error?.name ?? null,
+          artifact.error?.message ?? null,
+          artifact.warnings == null ? null : JSON.stringify(artifact.warnings),
+          artifact.files == null ? null : JSON.stringify(artifact.files),
+        );
+      }
+
+      const insertJob = this.#db.prepare(
+        `INSERT INTO jobs (repository, run_id, job_index, name)
+         VALUES (?, ?, ?, ?)`,
+      );
+      const insertTest = this.#db.prepare(
+        `INSERT INTO tests (repository, run_id, job_index, test_index,
+           parent_index, name, path, duration, failed, ignored, flaky_count,
+           source_file)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      results.forEach((job, jobIndex) => {
+        insertJob.run(repo, run.id, jobIndex, job.name);
+        let testIndex = 0;
+        const insert = (
+          test: RecordedTestResult,
+          parentIndex: number | null,
+        ) => {
+          const index = testIndex++;
+          insertTest.run(
+            repo,
+            run.id,
+            jobIndex,
+            index,
+            parentIndex,
+            test.name,
+            test.path,
+            test.duration ?? null,
+            test.failed ? 1 : 0,
+            test.ignored ? 1 : 0,
+            test.flakyCount ?? 0,
+            test.sourceFile ?? null,
+          );
+          test.subTests?.forEach((subTest) => insert(subTest, index));
+        };
+        job.tests.forEach((test) => insert(test, null));
+      });
+    });
+  }
+
+  /** Gets the saved results of a run in the shape they were downloaded in. */
+  getRunResults(
+    repository: Repository,
+    runId: number,
+  ): RunTestResults | undefined {
+    const repo = getRepositoryKey(repository);
+    const run = this.#db.prepare(
+      "SELECT truncated FROM runs WHERE repository = ? AND run_id = ?",
+    ).get(repo, runId);
+    if (run == null) {
+      return undefined;
+    }
+
+    const artifacts = this.#db.prepare(
+      `SELECT * FROM artifacts WHERE repository = ? AND run_id = ?
+       ORDER BY artifact_name`,
+    ).all(repo, runId).map((row): ArtifactResult => ({
+      artifactName: String(row.artifact_name),
+      resultsName: String(row.results_name),
+      status: String(row.status) as ArtifactResult["status"],
+      expiresAt: String(row.expires_at),
+      ...(row.error_message == null ? {} : {
+        error: {
+          name: String(row.error_name),
+          message: String(row.error_message),
+        },
+      }),
+      ...(row.warnings == null
+        ? {}
+        : { warnings: JSON.parse(String(row.warnings)) }),
+      ...(row.files == null ? {} : { files: JSON.parse(String(row.files)) }),
+    }));
+
+    const jobs = this.#db.prepare(
+      `SELECT job_index, name FROM jobs WHERE repository = ? AND run_id = ?
+       ORDER BY job_index`,
+    ).all(repo, runId).map((row): JobTestResults => ({
+      name: String(row.name),
+      platform: parseResultsPlatform(String(row.name)),
+      tests: [],
+    }));
+    const testsByIndex = new Map<string, RecordedTestResult>();
+    const rows = this.#db.prepare(
+      `SELECT * FROM tests WHERE repository = ? AND run_id = ?
+       ORDER BY job_index, test_index`,
+    ).all(repo, runId);
+    for (const row of rows) {
+      const test: RecordedTestResult = {
+        name: String(row.name),
+        path: String(row.path),
+      };
+      if (row.duration != null) {
+        test.duration = Number(row.duration);
+      }
+      if (Number(row.failed) === 1) {
+        test.failed = true;
+      }
+      if (Number(row.ignored) === 1) {
+        test.ignored = true;
+      }
+      if (Number(row.flaky_count) > 0) {
+        test.flakyCount = Number(row.flaky_count);
+      }
+      if (row.source_file != null) {
+        test.sourceFile = String(row.source_file);
+      }
+      testsByIndex.set(`${row.job_index}:${row.test_index}`, test);
+      if (row.parent_index == null) {
+        jobs[Number(row.job_index)].tests.push(test);
+      } else {
+        const parent = testsByIndex.get(
+          `${row.job_index}:${row.parent_index}`,
+        )!;
+        (parent.subTests ??= []).push(test);
+      }
+    }
+
+    return Number(run.truncated) === 1
+      ? { results: jobs, artifacts, truncated: true }
+      : { results: jobs, artifacts };
+  }
+
+  /** Gets the results of a test across the ingested runs, newest first. */
+  getTestHistory(
+    repository: Repository,
+    test: { path: string; name: string },
+    limit = 200,
+  ): TestHistoryEntry[] {
+    return this.#db.prepare(
+      `SELECT runs.run_id, runs.created_at, runs.head_branch, runs.head_sha,
+         jobs.name AS job_name, tests.duration, tests.failed, tests.ignored,
+         tests.flaky_count
+       FROM tests
+       JOIN runs ON runs.repository = tests.repository
+         AND runs.run_id = tests.run_id
+       JOIN jobs ON jobs.repository = tests.repository
+         AND jobs.run_id = tests.run_id AND jobs.job_index = tests.job_index
+       WHERE tests.repository = ? AND tests.path = ? AND tests.name = ?
+       ORDER BY runs.created_at DESC, jobs.name
+       LIMIT ?`,
+    ).all(getRepositoryKey(repository), test.path, test.name, limit)
+      .map((row) => ({
+        runId: Number(row.run_id),
+        runCreatedAt: String(row.created_at),
+        headBranch: String(row.head_branch),
+        headSha: String(row.head_sha),
+        jobName: String(row.job_name),
+        duration: row.duration == null ? undefined : Number(row.duration),
+        failed: Number(row.failed) === 1,
+        ignored: Number(row.ignored) === 1,
+        flakyCount: Number(row.flaky_count),
+      }));
+  }
+
+  close() {
+    this.#db.close();
+  }
+
+  #deleteRun(repo: string, runId: number) {
+    for (const table of ["runs", "artifacts", "jobs", "tests"]) {
+      this.#db.prepare(
+        `DELETE FROM ${table} WHERE repository = ? AND run_id = ?`,
+      ).run(repo, runId);
+    }
+  }
+
+  #transaction(action: () => void) {
+    this.#db.exec("BEGIN");
+    try {
+      action();
+      this.#db.exec("COMMIT");
+    } catch (error) {
+      this.#db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+}
+
+function getRepositoryKey(repository: Repository) {
+  return `${repository.owner}/${repository.name}`.toLowerCase();
+}
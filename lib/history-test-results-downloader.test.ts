@@ -0,0 +1,48 @@
+import { assertEquals } from "@std/assert";
+import { HistoryTestResultsDownloader } from "./history-test-results-downloader.ts";
+import { SqliteHistoryDatabase } from "./history-database.ts";
+import { createWorkflowRun } from "./testing.ts";
+import type { RunTestResults } from "./test-results-downloader.ts";
+
+const repository = { owner: "denoland", name: "deno" };
+const run = createWorkflowRun();
+
+function createResults(testName: string): RunTestResults {
+  return {
+    results: [{
+      name: "linux",
+      platform: { os: "linux" },
+      tests: [{ name: testName, path: "a.ts" }],
+    }],
+    artifacts: [],
+  };
+}
+
+class MockTestResultsDownloader {
+  downloadedRunIds: number[] = [];
+
+  downloadForRunId(runId: number): Promise<RunTestResults> {
+    this.downloadedRunIds.push(runId);
+    return Promise.resolve(createResults("downloaded"));
+  }
+}
+
+Deno.test("serves ingested runs from the database", async () => {
+  const inner = new MockTestResultsDownloader();
+  const db = new SqliteHistoryDatabase(":memory:");
+  db.saveRun(repository, run, createResults("stored"));
+  const downloader = new HistoryTestResultsDownloader(inner, db, repository);
+
+  assertEquals(await downloader.downloadForRunId(1), createResults("stored"));
+  assertEquals(
+    await downloader.downloadForRunId(2),
+    createResults("downloaded"),
+  );
+  // attempt filters need the artifacts
+  assertEquals(
+    await downloader.downloadForRunId(1, () => true),
+    createResults("downloaded"),
+  );
+  assertEquals(inner.downloadedRunIds, [2, 1]);
+  db.close();
+});
@@ -0,0 +1,45 @@
+import type { Repository } from "./config.ts";
+import type { Artifact } from "./github-api-client.ts";
+import type { HistoryDatabase } from "./history-database.ts";
+import type {
+  RunTestResults,
+  TestResultsDownloader,
+} from "./test-results-downloader.ts";
+
+/**
+ * Serves the results of ingested runs from the history database and
+ * downloads everything else.
+ */
+export class HistoryTestResultsDownloader implements TestResultsDownloader {
+  readonly #inner: TestResultsDownloader;
+  readonly #db: HistoryDatabase;
+  readonly #repository: Repository;
+
+  constructor(
+    inner: TestResultsDownloader,
+    db: HistoryDatabase,
+    repository: Repository,
+  ) {
+    this.#inner = inner;
+    this.#db = db;
+    this.#repository = repository;
+  }
+
+  downloadForRunId(
+    runId: number,
+    artifactFilter?: (artifact: Artifact) => boolean,
+  ): Promise<RunTestResults> {
+    // the database only has the artifacts of the latest attempt and
+    // runs with failed artifacts are downloaded again to retry them
+    if (artifactFilter == null) {
+      const stored = this.#db.getRun(this.#repository, runId);
+      if (stored != null && !stored.hasFailedArtifacts) {
+        const results = this.#db.getRunResults(this.#repository, runId);
+        if (results != null) {
+          return Promise.resolve(results);
+        }
+      }
+    }
+    return this.#inner.downloadForRunId(runId, artifactFilter);
+  }
+}
@@ -0,0 +1,18 @@
+import { type Repository, repositoryPath } from "./config.ts";
+
+/** Insights per repository and workflow that were computed in advance. */
+export class InsightsCache<T> {
+  readonly #entries = new Map<string, T>();
+
+  get(repository: Repository, workflow: string): T | undefined {
+    return this.#entries.get(getKey(repository, workflow));
+  }
+
+  set(repository: Repository, workflow: string, insights: T): void {
+    this.#entries.set(getKey(repository, workflow), insights);
+  }
+}
+
+function getKey(repository: Repository, workflow: string) {
+  return `${repositoryPath(repository).toLowerCase()}:${workflow}`;
+}
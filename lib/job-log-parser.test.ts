@@ -0,0 +1,95 @@
+import { assertEquals } from "@std/assert";
+import { findFailureOutput, parseFailureBlocks } from "./job-log-parser.ts";
+
+Deno.test("parses cargo test failure blocks", () => {
+  const log = [
+    "2025-01-01T00:00:00.0000000Z test specs::node::a ... ok",
+    "2025-01-01T00:00:01.0000000Z test specs::node::b ... FAILED",
+    "2025-01-01T00:00:02.0000000Z ",
+    "2025-01-01T00:00:02.0000000Z failures:",
+    "2025-01-01T00:00:02.0000000Z ",
+    "2025-01-01T00:00:02.0000000Z ---- specs::node::b stdout ----",
+    "2025-01-01T00:00:02.0000000Z \x1b[31mexpected\x1b[0m: 1",
+    "2025-01-01T00:00:02.0000000Z actual: 2",
+    "2025-01-01T00:00:02.0000000Z ",
+    "2025-01-01T00:00:02.0000000Z ---- specs::node::c ----",
+    "2025-01-01T00:00:02.0000000Z panicked at tests/c.rs:10:5",
+    "2025-01-01T00:00:02.0000000Z ",
+    "2025-01-01T00:00:02.0000000Z failures:",
+    "2025-01-01T00:00:02.0000000Z     specs::node::b",
+    "2025-01-01T00:00:02.0000000Z     specs::node::c",
+    "2025-01-01T00:00:02.0000000Z test result: FAILED. 1 passed; 2 failed",
+  ].join("\n");
+
+  const blocks = parseFailureBlocks(log);
+
+  assertEquals(
+    Array.from(blocks.entries()),
+    [
+      ["specs::node::b", "expected: 1\nactual: 2"],
+      ["specs::node::c", "panicked at tests/c.rs:10:5"],
+    ],
+  );
+});
+
+Deno.test("parses deno test failure blocks", () => {
+  const log = [
+    " ERRORS ",
+    "",
+    "fetch works => ./tests/unit/fetch_test.ts:10:6",
+    "error: AssertionError: Values are not equal.",
+    "    at file:///tests/unit/fetch_test.ts:12:3",
+    "",
+    "timer works => ./tests/unit/timer_test.ts:5:6",
+    "error: Leaking async ops",
+    "",
+    " FAILURES ",
+    "",
+    "fetch works => ./tests/unit/fetch_test.ts:10:6",
+  ].join("\n");
+
+  const blocks = parseFailureBlocks(log);
+
+  assertEquals(
+    blocks.get("fetch works"),
+    "error: AssertionError: Values are not equal.\n    at file:///tests/unit/fetch_test.ts:12:3",
+  );
+  assertEquals(blocks.get("timer works"), "error: Leaking async ops");
+});
+
+Deno.test("truncates long failure blocks", () => {
+  const lines = ["---- long ----"];
+  for (let i = 0; i < 250; i++) {
+    lines.push(`line ${i}`);
+  }
+
+  const output = parseFailureBlocks(lines.join("\n")).get("long")!;
+  const outputLines = output.split("\n");
+
+  assertEquals(outputLines.length, 201);
+  assertEquals(outputLines[199], "line 199");
+  assertEquals(outputLines[200], "... (50 more lines)");
+});
+
+Deno.test("finds failure output by test name", () => {
+  const blocks = new Map([
+    ["specs::node::b", "output b"],
+    ["integration::run::c (tests/c.rs)", "output c"],
+  ]);
+
+  assertEquals(findFailureOutput(blocks, "specs::node::b"), "output b");
+  assertEquals(findFailureOutput(blocks, "integration::run::c"), "output c");
+  assertEquals(findFailureOutput(blocks, "missing"), undefined);
+});
+
+Deno.test("doesn't find failure output of tests ending with the name", () => {
+  const blocks = new Map([
+    ["thread => ./tests/thread_test.ts:1:6", "output thread"],
+    ["fs::thread", "output fs thread"],
+    ["specs::read (tests/read.rs)", "output read"],
+  ]);
+
+  assertEquals(findFailureOutput(blocks, "read"), "output read");
+  assertEquals(findFailureOutput(blocks, "thread"), "output thread");
+  assertEquals(findFailureOutput(blocks, "ead"), undefined);
+});
@@ -0,0 +1,110 @@
+// GitHub prefixes each log line with a timestamp
+const TIMESTAMP_PREFIX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z ?/;
+// deno-lint-ignore no-control-regex
+const ANSI_ESCAPE = /\x1b\[[0-9;]*[A-Za-z]/g;
+// cargo test style: `---- specs::node::foo stdout ----`
+const RUST_FAILURE_HEADER = /^---- (.+?) (?:stdout |stderr )?----$/;
+// deno test style: `test name => ./tests/foo_test.ts:10:6`
+const DENO_FAILURE_HEADER = /^(.+?) => \S+:\d+:\d+$/;
+const SECTION_END = /^(failures:|FAILURES|ERRORS|test result:|##\[)/;
+const MAX_EXCERPT_LINES = 200;
+// what may come before a test name in a header (ex. `specs::node::foo`)
+const NAME_PREFIX_SEPARATORS = [" ", "::"];
+
+/**
+ * Finds the failure output blocks in a job log, keyed by the name of the
+ * test in the block's header. Supports the `cargo test` and `deno test`
+ * failure formats.
+ */
+export function parseFailureBlocks(log: string): Map<string, string> {
+  const blocks = new Map<string, string>();
+  let current: { name: string; lines: string[] } | undefined;
+
+  const finishBlock = () => {
+    if (current != null) {
+      const output = formatExcerpt(current.lines);
+      if (output.length > 0 && !blocks.has(current.name)) {
+        blocks.set(current.name, output);
+      }
+      current = undefined;
+    }
+  };
+
+  for (const rawLine of log.split(/\r?\n/)) {
+    const line = rawLine.replace(TIMESTAMP_PREFIX, "")
+      .replace(ANSI_ESCAPE, "")
+      .trimEnd();
+    const header = RUST_FAILURE_HEADER.exec(line) ??
+      DENO_FAILURE_HEADER.exec(line);
+    if (header != null) {
+      finishBlock();
+      current = { name: header[1].trim(), lines: [] };
+    } else if (SECTION_END.test(line.trimStart())) {
+      finishBlock();
+    } else if (current != null) {
+      current.lines.push(line);
+    }
+  }
+  finishBlock();
+
+  return blocks;
+}
+
+/** Gets the failure output for the provided test name. */
+export function findFailureOutput(
+  blocks: Map<string, string>,
+  testName: string,
+): string | undefined {
+  const exact = blocks.get(testName);
+  if (exact != null) {
+    return exact;
+  }
+  // the header may include extra context such as the file path
+  for (const [name, output] of blocks) {
+    if (containsTestName(name, testName)) {
+      return output;
+    }
+  }
+  return undefined;
+}
+
+// whole names only, so `read` isn't found in `thread`
+function containsTestName(header: string, testName: string) {
+  let index = header.indexOf(testName);
+  while (index !== -1) {
+    const before = header.slice(0, index);
+    const after = header.slice(index + testName.length);
+    if (
+      (before.length === 0 ||
+        NAME_PREFIX_SEPARATORS.some((separator) =>
+          before.endsWith(separator)
+        )) &&
+      (after.length === 0 || after.startsWith(" "))
+    ) {
+      return true;
+    }
+    index = header.indexOf(testName, index + 1);
+  }
+  return false;
+}
+
+function formatExcerpt(lines: string[]) {
+  // trim leading and trailing blank lines
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].length === 0) {
+    start++;
+  }
+  while (end > start && lines[end - 1].length === 0) {
+    end--;
+  }
+  const excerpt = lines.slice(start, end);
+  if (excerpt.length > MAX_EXCERPT_LINES) {
+    const remaining = excerpt.length - MAX_EXCERPT_LINES;
+    return [
+      ...excerpt.slice(0, MAX_EXCERPT_LINES),
+      `... (${remaining} more lines)`,
+    ].join("\n");
+  }
+  return excerpt.join("\n");
+}
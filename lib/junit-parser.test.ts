@@ -0,0 +1,138 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { parseJUnitXml } from "./junit-parser.ts";
+
+Deno.test("parses deno's JUnit output", () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="deno test" tests="5" failures="1" errors="0" time="0.512">
+  <testsuite name="./tests/a_test.ts" tests="5" disabled="1" errors="0" failures="1">
+    <testcase name="adds" classname="./tests/a_test.ts" time="0.012" line="3" col="6">
+    </testcase>
+    <testcase name="fails &amp; reports" classname="./tests/a_test.ts" time="0.250">
+      <failure message="Uncaught Error"><![CDATA[Error: <expected> failure]]></failure>
+    </testcase>
+    <testcase name="ignored" classname="./tests/a_test.ts" time="0">
+      <skipped/>
+    </testcase>
+    <testcase name="has steps" classname="./tests/a_test.ts" time="0.100"/>
+    <testcase name="has steps &gt; step 1" classname="./tests/a_test.ts" time="0.040"/>
+  </testsuite>
+</testsuites>`;
+
+  assertEquals(parseJUnitXml(xml), [
+    { name: "adds", path: "./tests/a_test.ts", duration: 12 },
+    {
+      name: "fails & reports",
+      path: "./tests/a_test.ts",
+      duration: 250,
+      failed: true,
+    },
+    { name: "ignored", path: "./tests/a_test.ts", duration: 0, ignored: true },
+    {
+      name: "has steps",
+      path: "./tests/a_test.ts",
+      duration: 100,
+      subTests: [{ name: "step 1", path: "./tests/a_test.ts", duration: 40 }],
+    },
+  ]);
+});
+
+Deno.test("counts flaky reruns", () => {
+  const xml = `<testsuite name="com.example.Tests">
+  <!-- surefire's rerunFailingTestsCount output -->
+  <testcase name="flaky" classname="com.example.Tests" time="1.5">
+    <flakyFailure message="timeout" type="java.lang.AssertionError"/>
+    <flakyError message="crash"/>
+  </testcase>
+  <testcase name="broken" classname="com.example.Tests" time="1">
+    <failure message="nope"/>
+    <rerunFailure message="nope"/>
+  </testcase>
+  <testcase name="retried" file="tests/retried.ts" time="0.3">
+    <error message="boom"/>
+  </testcase>
+  <testcase name="retried" file="tests/retried.ts" time="0.2"/>
+  <testcase name="always fails" file="tests/retried.ts">
+    <failure/>
+  </testcase>
+  <testcase name="always fails" file="tests/retried.ts">
+    <failure/>
+  </testcase>
+</testsuite>`;
+
+  assertEquals(parseJUnitXml(xml), [
+    {
+      name: "flaky",
+      path: "com.example.Tests",
+      duration: 1500,
+      flakyCount: 2,
+    },
+    {
+      name: "broken",
+      path: "com.example.Tests",
+      duration: 1000,
+      failed: true,
+    },
+    { name: "retried", path: "tests/retried.ts", duration: 200, flakyCount: 1 },
+    { name: "always fails", path: "tests/retried.ts", failed: true },
+  ]);
+});
+
+Deno.test("uses the suite as the path of nested test cases", () => {
+  const xml = `<testsuites>
+  <testsuite name="outer" file="src/outer.test.js">
+    <testsuite name="inner">
+      <testcase name='single quoted'/>
+    </testsuite>
+  </testsuite>
+</testsuites>`;
+
+  assertEquals(parseJUnitXml(xml), [
+    { name: "single quoted", path: "src/outer.test.js" },
+  ]);
+});
+
+Deno.test("nests steps of steps", () => {
+  const xml = `<testsuite name="./a_test.ts">
+    <testcase name="a" classname="./a_test.ts"/>
+    <testcase name="a &gt; b" classname="./a_test.ts"/>
+    <testcase name="a &gt; b &gt; c" classname="./a_test.ts">
+      <failure message="failed"/>
+    </testcase>
+  </testsuite>`;
+
+  assertEquals(parseJUnitXml(xml), [{
+    name: "a",
+    path: "./a_test.ts",
+    subTests: [{
+      name: "b",
+      path: "./a_test.ts",
+      subTests: [{ name: "c", path: "./a_test.ts", failed: true }],
+    }],
+  }]);
+});
+
+Deno.test("keeps character references that are out of range", () => {
+  const xml = `<testsuite name="a">
+    <testcase name="&#99999999; &#x1F600; &#65;" classname="a"/>
+  </testsuite>`;
+
+  assertEquals(parseJUnitXml(xml)[0].name, "&#99999999; \u{1F600} A");
+});
+
+Deno.test("rejects invalid reports", () => {
+  assertThrows(
+    () => parseJUnitXml("<html></html>"),
+    Error,
+    "Expected a <testsuites> or <testsuite> root element, found <html>",
+  );
+  assertThrows(
+    () => parseJUnitXml("<testsuite><testcase></testsuite>"),
+    Error,
+    "Unexpected closing tag </testsuite>",
+  );
+  assertThrows(
+    () => parseJUnitXml("<testsuite>"),
+    Error,
+    "Unclosed tag <testsuite>",
+  );
+});
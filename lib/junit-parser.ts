@@ -0,0 +1,229 @@
+import type { RecordedTestResult } from "./test-results-downloader.ts";
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+/** Separator deno uses between a test and its steps in JUnit test names. */
+const STEP_SEPARATOR = " > ";
+
+/**
+ * Parses a JUnit XML report into recorded test results.
+ *
+ * Test cases with `<failure>` or `<error>` are failed and ones with
+ * `<skipped>` are ignored. Passing test cases with `<flakyFailure>` or
+ * `<flakyError>` elements, or that are repeated after failing attempts,
+ * get a flaky count. Deno's test steps (`parent > step`) are nested under
+ * their parent test.
+ */
+export function parseJUnitXml(text: string): RecordedTestResult[] {
+  const root = parseXml(text);
+  if (root.name !== "testsuites" && root.name !== "testsuite") {
+    throw new Error(
+      `Expected a <testsuites> or <testsuite> root element, found <${root.name}>`,
+    );
+  }
+
+  const attempts = new Map<string, RecordedTestResult[]>();
+  collectTestCases(root, "", attempts);
+  return nestSteps(Array.from(attempts.values(), mergeAttempts));
+}
+
+function collectTestCases(
+  suite: XmlElement,
+  suitePath: string,
+  attempts: Map<string, RecordedTestResult[]>,
+) {
+  // nested suites are usually groups within the file of the outer suite
+  const path = suite.attributes.file ||
+    suitePath || (suite.attributes.name ?? "");
+  for (const child of suite.children) {
+    if (child.name === "testsuite") {
+      collectTestCases(child, path, attempts);
+    } else if (child.name === "testcase") {
+      const test = toRecordedTest(child, path);
+      const key = `${test.path}\0${test.name}`;
+      const existing = attempts.get(key);
+      if (existing != null) {
+        existing.push(test);
+      } else {
+        attempts.set(key, [test]);
+      }
+    }
+  }
+}
+
+function toRecordedTest(
+  testCase: XmlElement,
+  suitePath: string,
+): RecordedTestResult {
+  const { name = "", file, classname, time } = testCase.attributes;
+  const test: RecordedTestResult = {
+    name,
+    path: file ?? classname ?? suitePath,
+  };
+  const seconds = time == null ? NaN : parseFloat(time);
+  if (Number.isFinite(seconds)) {
+    test.duration = Math.round(seconds * 1000);
+  }
+  let flakyCount = 0;
+  for (const child of testCase.children) {
+    switch (child.name) {
+      case "failure":
+      case "error":
+        test.failed = true;
+        break;
+      case "skipped":
+        test.ignored = true;
+        break;
+      case "flakyFailure":
+      case "flakyError":
+        flakyCount++;
+        break;
+    }
+  }
+  if (flakyCount > 0 && !test.failed) {
+    test.flakyCount = flakyCount;
+  }
+  return test;
+}
+
+/** Merges the reruns of a test, which is flaky when the last one passed. */
+function mergeAttempts(attempts: RecordedTestResult[]): RecordedTestResult {
+  const last = attempts[attempts.length - 1];
+  if (last.failed) {
+    return last;
+  }
+  const flakyCount = attempts.reduce(
+    (count, attempt) =>
+      count + (attempt.failed ? 1 : 0) + (attempt.flakyCount ?? 0),
+    0,
+  );
+  return flakyCount > 0 ? { ...last, flakyCount } : last;
+}
+
+function nestSteps(tests: RecordedTestResult[]): RecordedTestResult[] {
+  const testsByName = new Map(
+    tests.map((test) => [`${test.path}\0${test.name}`, test]),
+  );
+  const topLevel: RecordedTestResult[] = [];
+  const stepNames = new Map<RecordedTestResult, string>();
+  for (const test of tests) {
+    const separatorIndex = test.name.lastIndexOf(STEP_SEPARATOR);
+    const parent = separatorIndex === -1
+      ? undefined
+      : testsByName.get(`${test.path}\0${test.name.slice(0, separatorIndex)}`);
+    if (parent == null) {
+      topLevel.push(test);
+    } else {
+      (parent.subTests ??= []).push(test);
+      stepNames.set(
+        test,
+        test.name.slice(separatorIndex + STEP_SEPARATOR.length),
+      );
+    }
+  }
+  // renamed once every step is attached since steps are found by full name
+  for (const [step, name] of stepNames) {
+    step.name = name;
+  }
+  return topLevel;
+}
+
+const TAG_PATTERN =
+  /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parses the elements and attributes of an XML document, which is all a
+ * JUnit report needs. Text, comments and declarations are skipped.
+ */
+function parseXml(text: string): XmlElement {
+  const document: XmlElement = { name: "", attributes: {}, children: [] };
+  const stack = [document];
+  let index = 0;
+  while (index < text.length) {
+    const tagStart = text.indexOf("<", index);
+    if (tagStart === -1) {
+      break;
+    }
+    if (text.startsWith("<!--", tagStart)) {
+      index = skipPast(text, tagStart, "-->");
+    } else if (text.startsWith("<![CDATA[", tagStart)) {
+      index = skipPast(text, tagStart, "]]>");
+    } else if (text.startsWith("<?", tagStart)) {
+      index = skipPast(text, tagStart, "?>");
+    } else if (text.startsWith("<!", tagStart)) {
+      index = skipPast(text, tagStart, ">");
+    } else if (text.startsWith("</", tagStart)) {
+      index = skipPast(text, tagStart, ">");
+      const name = text.slice(tagStart + 2, index - 1).trim();
+      const element = stack.pop();
+      if (element == null || element === document || element.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+    } else {
+      TAG_PATTERN.lastIndex = tagStart;
+      const match = TAG_PATTERN.exec(text);
+      if (match == null) {
+        throw new Error(`Invalid XML tag at offset ${tagStart}`);
+      }
+      const element: XmlElement = {
+        name: match[1],
+        attributes: parseAttributes(match[2]),
+        children: [],
+      };
+      stack[stack.length - 1].children.push(element);
+      if (match[3] !== "/") {
+        stack.push(element);
+      }
+      index = TAG_PATTERN.lastIndex;
+    }
+  }
+  if (stack.length > 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  if (document.children.length !== 1) {
+    throw new Error("Expected a single root element");
+  }
+  return document.children[0];
+}
+
+function skipPast(text: string, start: number, terminator: string) {
+  const end = text.indexOf(terminator, start);
+  if (end === -1) {
+    throw new Error(`Unterminated XML at offset ${start}`);
+  }
+  return end + terminator.length;
+}
+
+function parseAttributes(text: string) {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, value) => {
+    if (value[0] === "#") {
+      const codePoint = value[1] === "x" || value[1] === "X"
+        ? parseInt(value.slice(2), 16)
+        : parseInt(value.slice(1), 10);
+      // keep invalid references as they are instead of failing the report
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[value] ?? entity;
+  });
+}
@@ -0,0 +1,153 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { BlobWriter, configure, TextReader, ZipWriter } from "@zip-js/zip-js";
+import {
+  LocalResultsDirectory,
+  parseResultsFile,
+  readLimitedFormData,
+  UploadedResultsStore,
+  UploadTooLargeError,
+} from "./local-results.ts";
+import { ZipArtifactParser } from "./artifact-parser.ts";
+import type { RecordedTestResult } from "./test-results-downloader.ts";
+
+// disable web workers to avoid resource leaks in tests
+configure({ useWebWorkers: false });
+
+const tests: RecordedTestResult[] = [
+  { name: "test1", path: "a.ts", duration: 100 },
+  { name: "test2", path: "b.ts", failed: true },
+];
+
+async function createZipBlob(filename: string, content: string) {
+  const blobWriter = new BlobWriter();
+  const zipWriter = new ZipWriter(blobWriter);
+  await zipWriter.add(filename, new TextReader(content));
+  await zipWriter.close();
+  return await blobWriter.getData();
+}
+
+async function withTempDir(action: (dir: string) => Promise<void>) {
+  const dir = await Deno.makeTempDir();
+  try {
+    await action(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("parses json and zipped results files", async () => {
+  const parser = new ZipArtifactParser();
+  const json = JSON.stringify({ tests });
+
+  assertEquals(
+    await parseResultsFile(
+      parser,
+      "test-results-linux.json",
+      new Blob([json]),
+    ),
+    { name: "linux", tests },
+  );
+  assertEquals(
+    await parseResultsFile(
+      parser,
+      "test-results-linux.json.zip",
+      await createZipBlob("test-results-linux.json", json),
+    ),
+    {
+      name: "linux",
+      tests,
+      files: [{ fileName: "test-results-linux.json", testCount: 2 }],
+    },
+  );
+  await assertRejects(
+    () => parseResultsFile(parser, "other.json", new Blob(["{}"])),
+    Error,
+    "does not contain test results",
+  );
+});
+
+Deno.test("loads results from a directory", async () => {
+  await withTempDir(async (dir) => {
+    const json = JSON.stringify({ tests });
+    await Deno.writeTextFile(
+      `${dir}/test-results-linux-x86_64-debug-unit.json`,
+      json,
+    );
+    await Deno.writeTextFile(
+      `${dir}/test-results-linux-x86_64-debug-integration.json`,
+      json,
+    );
+    await Deno.writeTextFile(`${dir}/notes.txt`, "ignored");
+    const directory = new LocalResultsDirectory(dir, new ZipArtifactParser());
+
+    const files = await directory.list();
+    assertEquals(files.map((file) => file.name), [
+      "test-results-linux-x86_64-debug-integration.json",
+      "test-results-linux-x86_64-debug-unit.json",
+    ]);
+
+    const results = await directory.load(files.map((file) => file.name));
+    assertEquals(results, [{
+      name: "linux-x86_64-debug",
+      platform: { os: "linux", arch: "x86_64", buildType: "debug" },
+      tests: [...tests, ...tests],
+    }]);
+    assertEquals(await directory.load(["missing.json"]), undefined);
+    assertEquals(await directory.load(["../secret.json"]), undefined);
+  });
+});
+
+Deno.test("keeps uploads under temporary ids", () => {
+  const uploads = new UploadedResultsStore(1);
+  const first = uploads.add("test-results-linux.json", {
+    name: "linux",
+    tests,
+  });
+  assertEquals(uploads.get(first.id)?.results, [{
+    name: "linux",
+    platform: { os: "linux" },
+    tests,
+  }]);
+
+  const second = uploads.add("test-results-mac.json", { name: "mac", tests });
+  assertEquals(uploads.get(first.id), undefined);
+  assertEquals(uploads.get(second.id)?.fileName, "test-results-mac.json");
+});
+
+async function createUploadRequest(size: number, contentLength: boolean) {
+  const formData = new FormData();
+  formData.append("file", new File(["x".repeat(size)], "test-results.json"));
+  const form = new Response(formData);
+  const body = new Uint8Array(await form.arrayBuffer());
+  const headers = new Headers({
+    "content-type": form.headers.get("content-type")!,
+  });
+  if (contentLength) {
+    headers.set("content-length", body.length.toString());
+  }
+  // a stream so the body doesn't have a known length
+  return new Request("http://localhost/upload", {
+    method: "POST",
+    headers,
+    body: ReadableStream.from([body.slice(0, 100), body.slice(100)]),
+  });
+}
+
+Deno.test("reads uploads up to the size limit", async () => {
+  const formData = await readLimitedFormData(
+    await createUploadRequest(100, true),
+    1000,
+  );
+  assertEquals((formData.get("file") as File).size, 100);
+
+  await assertRejects(
+    async () =>
+      readLimitedFormData(await createUploadRequest(1000, true), 1000),
+    UploadTooLargeError,
+  );
+  await assertRejects(
+    async () =>
+      readLimitedFormData(await createUploadRequest(1000, false), 1000),
+    UploadTooLargeError,
+  );
+});
@@ -0,0 +1,157 @@
+import { LruCache } from "@std/cache/lru-cache";
+import {
+  type ArtifactParser,
+  parseTestResultsStream,
+} from "./artifact-parser.ts";
+import {
+  type JobTestResults,
+  mergeArtifactsByJob,
+  type ParsedTestResultArtifact,
+} from "./test-results-downloader.ts";
+
+const RESULTS_FILE_PATTERN = /\.(json|xml|zip)$/;
+
+export interface LocalResultsFile {
+  name: string;
+  size: number;
+}
+
+/**
+ * Parses a `test-results-*.json` file, a JUnit XML report or a zip of one,
+ * such as an artifact downloaded from the GitHub UI.
+ */
+export async function parseResultsFile(
+  parser: ArtifactParser,
+  fileName: string,
+  blob: Blob,
+): Promise<ParsedTestResultArtifact> {
+  return fileName.endsWith(".zip")
+    ? await parser.parse(fileName.slice(0, -".zip".length), blob)
+    : await parseTestResultsStream(
+      fileName,
+      blob.stream().pipeThrough(new TextDecoderStream()),
+    );
+}
+
+/** Thrown when an upload is larger than allowed. */
+export class UploadTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Upload is larger than ${maxBytes} bytes`);
+    this.name = "UploadTooLargeError";
+  }
+}
+
+/**
+ * Reads the form data of a request while stopping once the body is larger
+ * than `maxBytes`, which is checked against the `Content-Length` first.
+ */
+export async function readLimitedFormData(
+  request: Request,
+  maxBytes: number,
+): Promise<FormData> {
+  const contentLength = Number(request.headers.get("content-length"));
+  if (contentLength > maxBytes) {
+    throw new UploadTooLargeError(maxBytes);
+  }
+  let bytesRead = 0;
+  const limited = request.body?.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytesRead += chunk.byteLength;
+        if (bytesRead > maxBytes) {
+          controller.error(new UploadTooLargeError(maxBytes));
+        } else {
+          controller.enqueue(chunk);
+        }
+      },
+    }),
+  );
+  try {
+    return await new Response(limited, { headers: request.headers })
+      .formData();
+  } catch (error) {
+    throw bytesRead > maxBytes ? new UploadTooLargeError(maxBytes) : error;
+  }
+}
+
+/** Reads test results from the files in a directory. */
+export class LocalResultsDirectory {
+  readonly #dir: string;
+  readonly #parser: ArtifactParser;
+
+  constructor(dir: string, parser: ArtifactParser) {
+    this.#dir = dir;
+    this.#parser = parser;
+  }
+
+  get dir(): string {
+    return this.#dir;
+  }
+
+  async list(): Promise<LocalResultsFile[]> {
+    const files: LocalResultsFile[] = [];
+    for await (const entry of Deno.readDir(this.#dir)) {
+      if (entry.isFile && RESULTS_FILE_PATTERN.test(entry.name)) {
+        const info = await Deno.stat(`${this.#dir}/${entry.name}`);
+        files.push({ name: entry.name, size: info.size });
+      }
+    }
+    return files.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Loads the results of the provided files merged by job like the
+   * artifacts of a run, or undefined when one isn't in the directory.
+   */
+  async load(fileNames: string[]): Promise<JobTestResults[] | undefined> {
+    const artifacts: ParsedTestResultArtifact[] = [];
+    for (const fileName of fileNames) {
+      // only files directly in the directory can be read
+      if (fileName.includes("/") || fileName.includes("\\")) {
+        return undefined;
+      }
+      let blob: Blob;
+      try {
+        blob = new Blob([await Deno.readFile(`${this.#dir}/${fileName}`)]);
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          return undefined;
+        }
+        throw error;
+      }
+      artifacts.push(await parseResultsFile(this.#parser, fileName, blob));
+    }
+    return mergeArtifactsByJob(artifacts);
+  }
+}
+
+export interface UploadedResults {
+  id: string;
+  fileName: string;
+  uploadedAt: Date;
+  results: JobTestResults[];
+}
+
+/** Keeps the most recently uploaded results under temporary ids. */
+export class UploadedResultsStore {
+  readonly #uploads: LruCache<string, UploadedResults>;
+
+  constructor(maxEntries = 20) {
+    this.#uploads = new LruCache(maxEntries);
+  }
+
+  add(fileName: string, artifact: ParsedTestResultArtifact): UploadedResults {
+    const upload = {
+      id: crypto.randomUUID(),
+      fileName,
+      uploadedAt: new Date(),
+      results: mergeArtifactsByJob([artifact]),
+    };
+    this.#uploads.set(upload.id, upload);
+    return upload;
+  }
+
+  get(id: string): UploadedResults | undefined {
+    return this.#uploads.get(id);
+  }
+}
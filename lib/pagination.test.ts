@@ -0,0 +1,28 @@
+import { assertEquals } from "@std/assert";
+import { parseNextLink } from "./pagination.ts";
+
+Deno.test("parseNextLink finds next url", () => {
+  assertEquals(
+    parseNextLink(
+      `<https://api.github.com/repositories/1/actions/runs/1/jobs?per_page=100&page=2>; rel="next", ` +
+        `<https://api.github.com/repositories/1/actions/runs/1/jobs?per_page=100&page=5>; rel="last"`,
+    ),
+    "https://api.github.com/repositories/1/actions/runs/1/jobs?per_page=100&page=2",
+  );
+  assertEquals(
+    parseNextLink(
+      `<https://api.github.com/x?page=1>; rel="prev", <https://api.github.com/x?page=3>; rel="next"`,
+    ),
+    "https://api.github.com/x?page=3",
+  );
+});
+
+Deno.test("parseNextLink returns undefined on last page", () => {
+  assertEquals(parseNextLink(null), undefined);
+  assertEquals(
+    parseNextLink(
+      `<https://api.github.com/x?page=1>; rel="first", <https://api.github.com/x?page=4>; rel="prev"`,
+    ),
+    undefined,
+  );
+});
@@ -0,0 +1,26 @@
+/** What's left after paginating through an endpoint. */
+export interface PaginationResult {
+  /** Whether pages were left after the maximum number of pages. */
+  truncated: boolean;
+}
+
+/**
+ * Items of a paginated endpoint, which are flagged as `truncated` when
+ * some pages weren't fetched.
+ */
+export type PaginatedList<T> = T[] & { truncated?: boolean };
+
+/** Gets the url of the next page from a `Link` header. */
+export function parseNextLink(linkHeader: string | null): string | undefined {
+  if (linkHeader == null) {
+    return undefined;
+  }
+  // ex. `<https://api.github.com/...&page=2>; rel="next", <...>; rel="last"`
+  for (const part of linkHeader.split(",")) {
+    const match = /^\s*<([^>]+)>\s*;(.*)$/.exec(part);
+    if (match != null && /\brel="?next"?(?=[\s;]|$)/.test(match[2])) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,120 @@
+import { assertEquals } from "@std/assert";
+import {
+  formatPlatform,
+  getJobPlatform,
+  isTestJob,
+  matchesPlatform,
+  parseJobPlatform,
+  parseResultsPlatform,
+} from "./platform.ts";
+
+Deno.test("parses results names", () => {
+  assertEquals(parseResultsPlatform("linux"), { os: "linux" });
+  assertEquals(parseResultsPlatform("linux-x86_64-debug"), {
+    os: "linux",
+    arch: "x86_64",
+    buildType: "debug",
+  });
+  assertEquals(parseResultsPlatform("macos-aarch64-release-node-compat"), {
+    os: "macos",
+    arch: "aarch64",
+    buildType: "release",
+    suite: "node-compat",
+  });
+});
+
+Deno.test("parses job names", () => {
+  assertEquals(parseJobPlatform("test debug linux-x86_64"), {
+    os: "linux",
+    arch: "x86_64",
+    buildType: "debug",
+  });
+  assertEquals(parseJobPlatform("Test release macos-aarch64 (unit)"), {
+    os: "macos",
+    arch: "aarch64",
+    buildType: "release",
+    suite: "unit",
+  });
+  assertEquals(parseJobPlatform("test debug linux-riscv64"), {
+    os: "linux",
+    arch: "riscv64",
+    buildType: "debug",
+  });
+  assertEquals(parseJobPlatform("test linux-debug"), {
+    os: "linux",
+    buildType: "debug",
+  });
+  assertEquals(parseJobPlatform("lint"), undefined);
+  assertEquals(parseJobPlatform("build wasm"), undefined);
+});
+
+Deno.test("detects test jobs by name", () => {
+  assertEquals(isTestJob("test debug linux-x86_64"), true);
+  assertEquals(isTestJob("Test release macos-aarch64"), true);
+  assertEquals(isTestJob("build debug linux-x86_64"), false);
+});
+
+Deno.test("formats the platform of a job's results", () => {
+  const platform = parseResultsPlatform("linux-x86_64-debug-unit");
+  assertEquals(formatPlatform(platform), "linux-x86_64-debug-unit");
+  assertEquals(formatPlatform(getJobPlatform(platform)), "linux-x86_64-debug");
+  assertEquals(formatPlatform(getJobPlatform({ os: "linux" })), "linux");
+});
+
+Deno.test("matches job platforms with results platforms", () => {
+  const job = parseJobPlatform("test debug linux-x86_64")!;
+  assertEquals(matchesPlatform(job, parseResultsPlatform("linux")), true);
+  assertEquals(
+    matchesPlatform(job, parseResultsPlatform("linux-x86_64-debug-unit")),
+    true,
+  );
+  assertEquals(
+    matchesPlatform(job, parseResultsPlatform("linux-x86_64-release")),
+    false,
+  );
+  assertEquals(
+    matchesPlatform(job, parseResultsPlatform("linux-aarch64-debug")),
+    false,
+  );
+  assertEquals(
+    matchesPlatform(
+      parseJobPlatform("test debug linux-x86_64 (integration)")!,
+      parseResultsPlatform("linux-x86_64-debug-unit"),
+    ),
+    false,
+  );
+});
+
+Deno.test("matches architectures outside the known ones", () => {
+  assertEquals(
+    matchesPlatform(
+      parseJobPlatform("test debug linux-riscv64")!,
+      parseResultsPlatform("linux-riscv64-debug"),
+    ),
+    true,
+  );
+  assertEquals(
+    matchesPlatform(
+      parseJobPlatform("test debug linux-armv7")!,
+      parseResultsPlatform("linux-riscv64-debug"),
+    ),
+    false,
+  );
+});
+
+Deno.test("matches aliases of architectures", () => {
+  assertEquals(
+    matchesPlatform(
+      parseJobPlatform("test release macos-arm64")!,
+      parseResultsPlatform("macos-aarch64-release"),
+    ),
+    true,
+  );
+  assertEquals(
+    matchesPlatform(
+      parseJobPlatform("test release windows-x86_64")!,
+      parseResultsPlatform("windows-x64-release"),
+    ),
+    true,
+  );
+});
@@ -0,0 +1,132 @@
+/**
+ * Platform that test results were produced on. Fields are undefined when
+ * the name they're parsed from doesn't include them.
+ */
+export interface PlatformDescriptor {
+  /** Operating system (ex. `linux`). */
+  os: string;
+  /** CPU architecture (ex. `x86_64`). */
+  arch?: string;
+  /** Build type (ex. `debug`). */
+  buildType?: string;
+  /** Test suite (ex. `integration`). */
+  suite?: string;
+}
+
+const OPERATING_SYSTEMS = new Set(["linux", "macos", "windows"]);
+const ARCHITECTURES = new Set(["x86_64", "aarch64", "arm64", "x64"]);
+/** Other names of architectures, which are compared by their usual name. */
+const ARCH_ALIASES: Record<string, string> = {
+  arm64: "aarch64",
+  x64: "x86_64",
+};
+const BUILD_TYPES = new Set(["debug", "release"]);
+
+/**
+ * Parses the name of test results from an artifact, which follows the
+ * pattern `{os}-{arch}-{build_type}-{suite}` (ex. `linux-x86_64-debug-unit`).
+ * Old-style names only have the os (ex. `linux`).
+ */
+export function parseResultsPlatform(resultsName: string): PlatformDescriptor {
+  const [os, arch, buildType, ...suite] = resultsName.split("-");
+  const platform: PlatformDescriptor = { os };
+  if (arch != null) {
+    platform.arch = arch;
+  }
+  if (buildType != null) {
+    platform.buildType = buildType;
+  }
+  if (suite.length > 0) {
+    platform.suite = suite.join("-");
+  }
+  return platform;
+}
+
+/**
+ * Parses the name of a GitHub job (ex. `test debug linux-x86_64`) or
+ * returns undefined when it doesn't mention an operating system. The arch
+ * is a known one or any word joined to the os like in artifact names
+ * (ex. `linux-riscv64`). Words that aren't an os, arch or build type,
+ * other than the leading job kind, are taken as the suite.
+ */
+export function parseJobPlatform(
+  jobName: string,
+): PlatformDescriptor | undefined {
+  const words = jobName.toLowerCase().split(/[\s\-(),/]+/)
+    .filter((word) => word.length > 0);
+  const os = words.find((word) => OPERATING_SYSTEMS.has(word));
+  if (os == null) {
+    return undefined;
+  }
+  const platform: PlatformDescriptor = { os };
+  const arch = words.find((word) => ARCHITECTURES.has(word)) ??
+    getJoinedArch(jobName.toLowerCase(), os);
+  if (arch != null) {
+    platform.arch = arch;
+  }
+  const buildType = words.find((word) => BUILD_TYPES.has(word));
+  if (buildType != null) {
+    platform.buildType = buildType;
+  }
+  const suite = words.slice(1).filter((word) =>
+    word !== os && word !== arch && word !== buildType
+  );
+  if (suite.length > 0) {
+    platform.suite = suite.join("-");
+  }
+  return platform;
+}
+
+function getJoinedArch(jobName: string, os: string): string | undefined {
+  const word = new RegExp(`(?:^|[^a-z0-9_])${os}-([a-z0-9_]+)`)
+    .exec(jobName)?.[1];
+  return word == null || BUILD_TYPES.has(word) ? undefined : word;
+}
+
+/**
+ * Whether a job runs tests that upload results. Jobs are expected to be
+ * named like the ones of `denoland/deno` (ex. `test debug linux-x86_64`),
+ * so test jobs named otherwise aren't matched with their results.
+ */
+export function isTestJob(jobName: string): boolean {
+  return jobName.toLowerCase().startsWith("test");
+}
+
+/** Gets the platform of a job's results, which combines its suites. */
+export function getJobPlatform(
+  platform: PlatformDescriptor,
+): PlatformDescriptor {
+  const { suite: _, ...jobPlatform } = platform;
+  return jobPlatform;
+}
+
+/** Formats a platform like an artifact name (ex. `linux-x86_64-debug`). */
+export function formatPlatform(platform: PlatformDescriptor): string {
+  return [platform.os, platform.arch, platform.buildType, platform.suite]
+    .filter((part) => part != null)
+    .join("-");
+}
+
+/**
+ * Whether a job ran on the platform of some results. The job must have
+ * every part of the results' platform, while suites are only compared
+ * when both have one since most jobs run several.
+ */
+export function matchesPlatform(
+  job: PlatformDescriptor,
+  results: PlatformDescriptor,
+): boolean {
+  const equals = (a: string | undefined, b: string | undefined) =>
+    a?.toLowerCase() === b?.toLowerCase();
+  return equals(job.os, results.os) &&
+    (results.arch == null ||
+      equals(normalizeArch(job.arch), normalizeArch(results.arch))) &&
+    (results.buildType == null || equals(job.buildType, results.buildType)) &&
+    (job.suite == null || results.suite == null ||
+      equals(job.suite, results.suite));
+}
+
+function normalizeArch(arch: string | undefined): string | undefined {
+  const name = arch?.toLowerCase();
+  return name == null ? undefined : ARCH_ALIASES[name] ?? name;
+}
@@ -0,0 +1,109 @@
+export interface RateLimitBudget {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: Date;
+}
+
+export class RateLimitedError extends Error {
+  readonly retryAt: Date;
+
+  constructor(retryAt: Date) {
+    super(
+      `GitHub API rate limit exceeded. Try again at ${retryAt.toISOString()}.`,
+    );
+    this.name = "RateLimitedError";
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Tracks the GitHub API budget reported by the `X-RateLimit-*` headers
+ * along with any backoff requested by GitHub. This lives for the duration
+ * of the application so all requests share the same budget.
+ */
+export class RateLimitTracker {
+  #budget: RateLimitBudget | undefined;
+  #blockedUntil: Date | undefined;
+
+  get budget(): RateLimitBudget | undefined {
+    return this.#budget;
+  }
+
+  update(headers: Headers) {
+    const limit = parseHeaderInt(headers, "x-ratelimit-limit");
+    const remaining = parseHeaderInt(headers, "x-ratelimit-remaining");
+    const reset = parseHeaderInt(headers, "x-ratelimit-reset");
+    if (limit == null || remaining == null || reset == null) {
+      return;
+    }
+    this.#budget = {
+      resource: headers.get("x-ratelimit-resource") ?? "core",
+      limit,
+      remaining,
+      used: parseHeaderInt(headers, "x-ratelimit-used") ?? limit - remaining,
+      resetAt: new Date(reset * 1000),
+    };
+  }
+
+  block(until: Date) {
+    if (this.#blockedUntil == null || until > this.#blockedUntil) {
+      this.#blockedUntil = until;
+    }
+  }
+
+  /** Gets when requests may resume or undefined when not rate limited. */
+  blockedUntil(now = new Date()): Date | undefined {
+    if (this.#blockedUntil != null && this.#blockedUntil > now) {
+      return this.#blockedUntil;
+    }
+    if (
+      this.#budget != null && this.#budget.remaining === 0 &&
+      this.#budget.resetAt > now
+    ) {
+      return this.#budget.resetAt;
+    }
+    return undefined;
+  }
+}
+
+export function isRateLimitedResponse(response: Response) {
+  if (response.status === 429) {
+    return true;
+  }
+  // a 403 is also used for permission errors, so only treat it
+  // as a rate limit when the headers say so
+  return response.status === 403 &&
+    (response.headers.get("x-ratelimit-remaining") === "0" ||
+      response.headers.has("retry-after"));
+}
+
+/**
+ * Gets when a rate limited request may be retried following GitHub's
+ * guidance: respect `Retry-After`, then `X-RateLimit-Reset` when the
+ * budget is exhausted, otherwise back off exponentially from one minute.
+ */
+export function getRetryAt(response: Response, attempt: number): Date {
+  const now = Date.now();
+  const retryAfter = parseHeaderInt(response.headers, "retry-after");
+  if (retryAfter != null) {
+    return new Date(now + retryAfter * 1000);
+  }
+  const reset = parseHeaderInt(response.headers, "x-ratelimit-reset");
+  if (
+    response.headers.get("x-ratelimit-remaining") === "0" && reset != null
+  ) {
+    return new Date(reset * 1000);
+  }
+  return new Date(now + 60_000 * 2 ** attempt);
+}
+
+function parseHeaderInt(headers: Headers, name: string) {
+  const value = headers.get(name);
+  if (value == null) {
+    return undefined;
+  }
+  const number = parseInt(value, 10);
+  return isNaN(number) ? undefined : number;
+}
@@ -0,0 +1,116 @@
+import { assertEquals } from "@std/assert";
+import type { FileFetcher } from "./file-fetcher.ts";
+import { NullLogger } from "./logger.ts";
+import {
+  RecordingFileFetcher,
+  ReplayFileFetcher,
+} from "./recording-file-fetcher.ts";
+
+class MockFileFetcher implements FileFetcher {
+  #responses: Response[] = [];
+
+  mockResponse(response: Response) {
+    this.#responses.push(response);
+  }
+
+  get(_url: string | URL, _headers: HeadersInit): Promise<Response> {
+    const response = this.#responses.shift();
+    if (!response) {
+      throw new Error("No mocked response");
+    }
+    return Promise.resolve(response);
+  }
+}
+
+const runUrl = "https://api.github.com/repos/denoland/deno/actions/runs/1";
+const artifactUrl =
+  "https://api.github.com/repos/denoland/deno/actions/artifacts/2/zip";
+
+async function withTempDir(action: (dir: string) => Promise<void>) {
+  const dir = await Deno.makeTempDir();
+  try {
+    await action(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("replays recorded responses", async () => {
+  await withTempDir(async (dir) => {
+    const inner = new MockFileFetcher();
+    const recorder = new RecordingFileFetcher(inner, dir, new NullLogger());
+    const zipBytes = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0xff, 0x00]);
+    inner.mockResponse(
+      new Response(JSON.stringify({ id: 1 }), {
+        headers: { "content-type": "application/json", "set-cookie": "a=b" },
+      }),
+    );
+    inner.mockResponse(new Response(zipBytes));
+    inner.mockResponse(
+      new Response("Not Found", { status: 404, statusText: "Not Found" }),
+    );
+
+    const recorded = await recorder.get(runUrl, { Authorization: "secret" });
+    assertEquals(await recorded.json(), { id: 1 });
+    await (await recorder.get(artifactUrl, {})).body?.cancel();
+    await (await recorder.get(`${runUrl}0`, {})).body?.cancel();
+
+    const replay = new ReplayFileFetcher(dir);
+    const run = await replay.get(runUrl, {});
+    assertEquals(run.status, 200);
+    assertEquals(run.headers.get("content-type"), "application/json");
+    assertEquals(run.headers.has("set-cookie"), false);
+    assertEquals(await run.json(), { id: 1 });
+    const artifact = await replay.get(new URL(artifactUrl), {});
+    assertEquals(new Uint8Array(await artifact.arrayBuffer()), zipBytes);
+    const missingRun = await replay.get(`${runUrl}0`, {});
+    assertEquals(missingRun.status, 404);
+    assertEquals(await missingRun.text(), "Not Found");
+
+    for await (const entry of Deno.readDir(dir)) {
+      if (entry.name.endsWith(".json")) {
+        const text = await Deno.readTextFile(`${dir}/${entry.name}`);
+        assertEquals(text.includes("secret"), false);
+      }
+    }
+  });
+});
+
+Deno.test("returns 404 for urls that weren't recorded", async () => {
+  await withTempDir(async (dir) => {
+    const response = await new ReplayFileFetcher(dir).get(runUrl, {});
+    assertEquals(response.status, 404);
+    assertEquals(await response.text(), `No recording for ${runUrl}`);
+  });
+});
+
+Deno.test("matches urls regardless of query order", async () => {
+  await withTempDir(async (dir) => {
+    const inner = new MockFileFetcher();
+    const recorder = new RecordingFileFetcher(inner, dir, new NullLogger());
+    inner.mockResponse(new Response("[]"));
+    await (await recorder.get(`${runUrl}?page=2&per_page=100`, {})).text();
+
+    const replay = new ReplayFileFetcher(dir);
+    const response = await replay.get(`${runUrl}?per_page=100&page=2`, {});
+    assertEquals(await response.text(), "[]");
+  });
+});
+
+Deno.test("doesn't record transient failures or 304s", async () => {
+  await withTempDir(async (dir) => {
+    const inner = new MockFileFetcher();
+    const recorder = new RecordingFileFetcher(inner, dir, new NullLogger());
+    inner.mockResponse(new Response(JSON.stringify({ id: 1 })));
+    inner.mockResponse(new Response(null, { status: 304 }));
+    inner.mockResponse(new Response("Bad Gateway", { status: 502 }));
+
+    await (await recorder.get(runUrl, {})).text();
+    assertEquals((await recorder.get(runUrl, {})).status, 304);
+    await (await recorder.get(runUrl, {})).text();
+
+    const response = await new ReplayFileFetcher(dir).get(runUrl, {});
+    assertEquals(response.status, 200);
+    assertEquals(await response.json(), { id: 1 });
+  });
+});
@@ -0,0 +1,136 @@
+import type { FileFetcher } from "./file-fetcher.ts";
+import type { Logger } from "./logger.ts";
+
+interface RecordedResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+}
+
+/**
+ * File fetcher that saves the responses of the inner fetcher to a
+ * directory so they can be served by a `ReplayFileFetcher`. Transient
+ * failures and `304 Not Modified` replies are not saved so they don't
+ * replace a recorded response.
+ */
+export class RecordingFileFetcher implements FileFetcher {
+  readonly #inner: FileFetcher;
+  readonly #dir: string;
+  readonly #logger: Logger;
+
+  constructor(inner: FileFetcher, dir: string, logger: Logger) {
+    this.#inner = inner;
+    this.#dir = dir;
+    this.#logger = logger;
+  }
+
+  async get(
+    url: string | URL,
+    headers: HeadersInit,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const response = await this.#inner.get(url, headers, signal);
+    if (!shouldRecord(response)) {
+      return response;
+    }
+
+    const body = new Uint8Array(await response.arrayBuffer());
+    const recorded: RecordedResponse = {
+      url: normalizeUrl(url),
+      status: response.status,
+      statusText: response.statusText,
+      headers: Array.from(response.headers)
+        .filter(([name]) => name !== "set-cookie"),
+    };
+    try {
+      const path = await getRecordingPath(this.#dir, url);
+      await Deno.mkdir(this.#dir, { recursive: true });
+      await writeFileAtomic(`${path}.body`, body);
+      await writeFileAtomic(
+        `${path}.json`,
+        new TextEncoder().encode(JSON.stringify(recorded, null, 2)),
+      );
+    } catch (error) {
+      this.#logger.logError(`Failed to record ${recorded.url}:`, error);
+    }
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+}
+
+/**
+ * File fetcher that serves the responses saved by a `RecordingFileFetcher`
+ * without network access. Urls that weren't recorded get a 404.
+ */
+export class ReplayFileFetcher implements FileFetcher {
+  readonly #dir: string;
+
+  constructor(dir: string) {
+    this.#dir = dir;
+  }
+
+  async get(
+    url: string | URL,
+    _headers: HeadersInit,
+    _signal?: AbortSignal,
+  ): Promise<Response> {
+    const path = await getRecordingPath(this.#dir, url);
+    let recorded: RecordedResponse;
+    let body: Uint8Array<ArrayBuffer>;
+    try {
+      recorded = JSON.parse(await Deno.readTextFile(`${path}.json`));
+      body = await Deno.readFile(`${path}.body`);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return new Response(`No recording for ${normalizeUrl(url)}`, {
+          status: 404,
+          statusText: "Not Recorded",
+        });
+      }
+      throw error;
+    }
+    return new Response(isNullBodyStatus(recorded.status) ? null : body, {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.headers,
+    });
+  }
+}
+
+function shouldRecord(response: Response) {
+  return response.status !== 304 && response.status !== 429 &&
+    response.status < 500;
+}
+
+function isNullBodyStatus(status: number) {
+  return status === 204 || status === 205 || status === 304;
+}
+
+/** Sorts the query so equivalent urls share a recording. */
+function normalizeUrl(url: string | URL) {
+  const normalized = new URL(url);
+  normalized.searchParams.sort();
+  return normalized.toString();
+}
+
+async function getRecordingPath(dir: string, url: string | URL) {
+  const hash = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(normalizeUrl(url)),
+  );
+  const hex = Array.from(
+    new Uint8Array(hash),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return `${dir}/${hex}`;
+}
+
+async function writeFileAtomic(path: string, data: Uint8Array<ArrayBuffer>) {
+  const tempPath = `${path}.tmp`;
+  await Deno.writeFile(tempPath, data);
+  await Deno.rename(tempPath, path);
+}
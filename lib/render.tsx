@@ -1,8 +1,15 @@
+import type { WorkflowRun } from "./github-api-client.ts";
+
 export function formatDate(dateString: string): string {
   const date = new Date(dateString);
   return date.toLocaleString();
 }
 
+/** Formats the time of day as `HH:MM UTC`. */
+export function formatTime(date: Date): string {
+  return `${date.toISOString().slice(11, 16)} UTC`;
+}
+
 export function formatDuration(ms: number): string {
   if (ms < 1000) {
     return `${ms.toFixed(0)}ms`;
@@ -99,6 +106,105 @@ export function TestTimeline(
   );
 }
 
+/** Gets the first line of a commit message. */
+export function getCommitTitle(message: string): string {
+  return message.split("\n", 1)[0].trim();
+}
+
+export interface RunAssociationsProps {
+  run: WorkflowRun;
+  /** Url of the repository the run belongs to (ex. `https://github.com/denoland/deno`). */
+  repoUrl: string;
+}
+
+/** Links to the pull request, author and commit of a run. */
+export function RunAssociations({ run, repoUrl }: RunAssociationsProps) {
+  const commitRepoUrl = run.head_repository?.html_url ?? repoUrl;
+  const linkClass = "relative z-10 text-blue-600 hover:text-blue-800";
+
+  return (
+    <div class="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-gray-600">
+      {run.pull_requests.map((pr) => (
+        <a
+          key={pr.id}
+          href={`${repoUrl}/pull/${pr.number}`}
+          class={`${linkClass} font-semibold`}
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          #{pr.number}
+        </a>
+      ))}
+      <a
+        href={run.actor.html_url}
+        class={linkClass}
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        @{run.actor.login}
+      </a>
+      <a
+        href={`${commitRepoUrl}/commit/${run.head_sha}`}
+        class={`${linkClass} min-w-0 truncate`}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={run.head_commit?.message}
+      >
+        <span class="font-mono">{run.head_sha.slice(0, 7)}</span>
+        {run.head_commit != null && (
+          <span class="ml-1">{getCommitTitle(run.head_commit.message)}</span>
+        )}
+      </a>
+    </div>
+  );
+}
+
+export interface WorkflowSelectorProps {
+  workflows: readonly string[];
+  current: string;
+  getHref: (workflow: string) => string;
+}
+
+/** Links for switching between the configured workflows. */
+export function WorkflowSelector(
+  { workflows, current, getHref }: WorkflowSelectorProps,
+) {
+  if (workflows.length <= 1) {
+    return null;
+  }
+
+  return (
+    <div class="mt-2 flex flex-wrap items-center gap-2 text-sm">
+      <span class="text-gray-600">Workflow:</span>
+      {workflows.map((workflow) => (
+        <a
+          key={workflow}
+          href={getHref(workflow)}
+          class={workflow === current
+            ? "px-2 py-1 rounded bg-blue-500 text-white"
+            : "px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"}
+        >
+          {workflow}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+/** Gets the query string for a workflow, which is empty for the default. */
+export function getWorkflowSearch(
+  workflows: readonly string[],
+  workflow: string,
+  params: Record<string, string> = {},
+): string {
+  const search = new URLSearchParams(params);
+  if (workflow !== workflows[0]) {
+    search.set("workflow", workflow);
+  }
+  const text = search.toString();
+  return text.length > 0 ? `?${text}` : "";
+}
+
 export function getStatusBadge(status: string, conclusion: string | null) {
   if (status !== "completed") {
     return (
@@ -0,0 +1,133 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  RetryingFileFetcher,
+  type RetryPolicy,
+} from "./retrying-file-fetcher.ts";
+import type { FileFetcher } from "./file-fetcher.ts";
+
+const policy: RetryPolicy = {
+  maxRetries: 2,
+  initialDelayMs: 0,
+  maxDelayMs: 0,
+  timeoutMs: 1_000,
+};
+
+class MockFileFetcher implements FileFetcher {
+  callCount = 0;
+  #results: (() => Promise<Response>)[] = [];
+
+  mockResult(result: () => Promise<Response>) {
+    this.#results.push(result);
+  }
+
+  get(
+    _url: string | URL,
+    _headers: HeadersInit,
+    _signal?: AbortSignal,
+  ): Promise<Response> {
+    this.callCount++;
+    const result = this.#results.shift();
+    if (!result) {
+      throw new Error("No mocked result");
+    }
+    return result();
+  }
+}
+
+const url = "https://example.com/file";
+
+Deno.test("retries server errors", async () => {
+  const inner = new MockFileFetcher();
+  const fetcher = new RetryingFileFetcher(inner, policy);
+
+  inner.mockResult(() => Promise.resolve(new Response(null, { status: 502 })));
+  inner.mockResult(() => Promise.resolve(new Response("ok")));
+
+  const response = await fetcher.get(url, {});
+
+  assertEquals(await response.text(), "ok");
+  assertEquals(inner.callCount, 2);
+});
+
+Deno.test("returns last server error after max retries", async () => {
+  const inner = new MockFileFetcher();
+  const fetcher = new RetryingFileFetcher(inner, policy);
+
+  for (let i = 0; i < 3; i++) {
+    inner.mockResult(() =>
+      Promise.resolve(new Response(null, { status: 503 }))
+    );
+  }
+
+  const response = await fetcher.get(url, {});
+
+  assertEquals(response.status, 503);
+  assertEquals(inner.callCount, 3);
+});
+
+Deno.test("does not retry client errors", async () => {
+  const inner = new MockFileFetcher();
+  const fetcher = new RetryingFileFetcher(inner, policy);
+
+  inner.mockResult(() => Promise.resolve(new Response(null, { status: 404 })));
+
+  const response = await fetcher.get(url, {});
+
+  assertEquals(response.status, 404);
+  assertEquals(inner.callCount, 1);
+});
+
+Deno.test("retries network errors", async () => {
+  const inner = new MockFileFetcher();
+  const fetcher = new RetryingFileFetcher(inner, policy);
+
+  inner.mockResult(() => Promise.reject(new TypeError("connection reset")));
+  inner.mockResult(() => Promise.resolve(new Response("ok")));
+
+  const response = await fetcher.get(url, {});
+
+  assertEquals(await response.text(), "ok");
+  assertEquals(inner.callCount, 2);
+});
+
+Deno.test("times out and retries hung requests", async () => {
+  let callCount = 0;
+  const inner: FileFetcher = {
+    get(_url, _headers, signal) {
+      callCount++;
+      return new Promise((_resolve, reject) => {
+        signal!.addEventListener("abort", () => reject(signal!.reason));
+      });
+    },
+  };
+  const fetcher = new RetryingFileFetcher(inner, {
+    ...policy,
+    maxRetries: 1,
+    timeoutMs: 10,
+  });
+
+  const error = await assertRejects(() => fetcher.get(url, {}), DOMException);
+
+  assertEquals(error.name, "TimeoutError");
+  assertEquals(callCount, 2);
+});
+
+Deno.test("does not retry when caller aborts", async () => {
+  const controller = new AbortController();
+  let callCount = 0;
+  const inner: FileFetcher = {
+    get(_url, _headers, signal) {
+      callCount++;
+      return new Promise((_resolve, reject) => {
+        signal!.addEventListener("abort", () => reject(signal!.reason));
+      });
+    },
+  };
+  const fetcher = new RetryingFileFetcher(inner, policy);
+
+  const promise = fetcher.get(url, {}, controller.signal);
+  controller.abort(new Error("Client disconnected"));
+
+  await assertRejects(() => promise, Error, "Client disconnected");
+  assertEquals(callCount, 1);
+});
@@ -0,0 +1,84 @@
+import type { FileFetcher } from "./file-fetcher.ts";
+import { delay } from "./utils/delay.ts";
+
+export interface RetryPolicy {
+  /** Number of retries after the first attempt. */
+  maxRetries: number;
+  /** Delay before the first retry, which doubles for each retry after. */
+  initialDelayMs: number;
+  maxDelayMs: number;
+  /** Timeout for each attempt, including reading the response body. */
+  timeoutMs: number;
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxRetries: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10_000,
+  timeoutMs: 60_000,
+};
+
+/**
+ * File fetcher that times out each attempt and retries server errors,
+ * network errors and timeouts with exponential backoff and jitter. This
+ * is safe because the file fetcher only makes idempotent GET requests.
+ */
+export class RetryingFileFetcher implements FileFetcher {
+  readonly #inner: FileFetcher;
+  readonly #policy: RetryPolicy;
+
+  constructor(inner: FileFetcher, policy: RetryPolicy = defaultRetryPolicy) {
+    this.#inner = inner;
+    this.#policy = policy;
+  }
+
+  async get(
+    url: string | URL,
+    headers: HeadersInit,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    for (let attempt = 0;; attempt++) {
+      const timeoutSignal = AbortSignal.timeout(this.#policy.timeoutMs);
+      const attemptSignal = signal == null
+        ? timeoutSignal
+        : AbortSignal.any([signal, timeoutSignal]);
+      try {
+        const response = await this.#inner.get(url, headers, attemptSignal);
+        if (
+          !isRetryableStatus(response.status) ||
+          attempt >= this.#policy.maxRetries
+        ) {
+          return response;
+        }
+        await response.body?.cancel();
+      } catch (error) {
+        if (
+          signal?.aborted || attempt >= this.#policy.maxRetries ||
+          !isRetryableError(error)
+        ) {
+          throw error;
+        }
+      }
+      await delay(this.#getBackoffMs(attempt), signal);
+    }
+  }
+
+  #getBackoffMs(attempt: number) {
+    const backoff = Math.min(
+      this.#policy.maxDelayMs,
+      this.#policy.initialDelayMs * 2 ** attempt,
+    );
+    // use half of the backoff as jitter so concurrent retries spread out
+    return backoff / 2 + Math.random() * backoff / 2;
+  }
+}
+
+function isRetryableStatus(status: number) {
+  return status >= 500 && status !== 501;
+}
+
+function isRetryableError(error: unknown) {
+  // fetch throws a TypeError for network errors
+  return error instanceof TypeError ||
+    (error instanceof DOMException && error.name === "TimeoutError");
+}
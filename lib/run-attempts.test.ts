@@ -0,0 +1,129 @@
+import { assertEquals } from "@std/assert";
+import {
+  compareAttempts,
+  createAttemptArtifactFilter,
+  getAttemptWindow,
+} from "./run-attempts.ts";
+import type { Artifact, WorkflowRun } from "./github-api-client.ts";
+import { createWorkflowRun } from "./testing.ts";
+
+class MockGitHubApiClient {
+  #attempts = new Map<number, WorkflowRun>();
+
+  mockAttempt(run: WorkflowRun) {
+    this.#attempts.set(run.run_attempt, run);
+  }
+
+  getWorkflowRun(_runId: number, attempt?: number) {
+    return Promise.resolve(this.#attempts.get(attempt!));
+  }
+}
+
+function createArtifact(createdAt: string): Artifact {
+  return {
+    id: 1,
+    name: "test-results-linux.json",
+    size_in_bytes: 1024,
+    url: "https://api.github.com/artifacts/1",
+    archive_download_url: "https://api.github.com/artifacts/1/zip",
+    expired: false,
+    created_at: createdAt,
+    updated_at: createdAt,
+    expires_at: "2025-03-01T00:00:00Z",
+  };
+}
+
+Deno.test("getAttemptWindow for each attempt", async () => {
+  const client = new MockGitHubApiClient();
+  const latest = createWorkflowRun({
+    run_attempt: 3,
+    run_started_at: "2025-01-01T03:00:00Z",
+    updated_at: "2025-01-01T03:00:00Z",
+  });
+  client.mockAttempt(createWorkflowRun({
+    run_attempt: 1,
+    run_started_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+  }));
+  client.mockAttempt(createWorkflowRun({
+    run_attempt: 2,
+    run_started_at: "2025-01-01T02:00:00Z",
+    updated_at: "2025-01-01T02:00:00Z",
+  }));
+
+  assertEquals(await getAttemptWindow(client, latest, 1), {
+    from: undefined,
+    to: new Date("2025-01-01T02:00:00Z"),
+  });
+  assertEquals(await getAttemptWindow(client, latest, 2), {
+    from: new Date("2025-01-01T02:00:00Z"),
+    to: new Date("2025-01-01T03:00:00Z"),
+  });
+  assertEquals(await getAttemptWindow(client, latest, 3), {
+    from: new Date("2025-01-01T03:00:00Z"),
+    to: undefined,
+  });
+});
+
+Deno.test("createAttemptArtifactFilter filters by created time", () => {
+  const filter = createAttemptArtifactFilter({
+    from: new Date("2025-01-01T02:00:00Z"),
+    to: new Date("2025-01-01T03:00:00Z"),
+  });
+
+  assertEquals(filter(createArtifact("2025-01-01T01:59:59Z")), false);
+  assertEquals(filter(createArtifact("2025-01-01T02:00:00Z")), true);
+  assertEquals(filter(createArtifact("2025-01-01T02:30:00Z")), true);
+  assertEquals(filter(createArtifact("2025-01-01T03:00:00Z")), false);
+});
+
+Deno.test("compareAttempts finds tests that changed", () => {
+  const comparison = compareAttempts(
+    [{
+      name: "linux",
+      tests: [
+        { name: "flaky", path: "a.ts", failed: true },
+        { name: "stable", path: "a.ts" },
+        { name: "broken", path: "b.ts" },
+        { name: "only in base", path: "c.ts", failed: true },
+        {
+          name: "parent",
+          path: "d.ts",
+          failed: true,
+          subTests: [{ name: "child", path: "d.ts", failed: true }],
+        },
+      ],
+    }],
+    [{
+      name: "linux",
+      tests: [
+        { name: "flaky", path: "a.ts" },
+        { name: "stable", path: "a.ts" },
+        { name: "broken", path: "b.ts", failed: true },
+        {
+          name: "parent",
+          path: "d.ts",
+          subTests: [{ name: "child", path: "d.ts" }],
+        },
+      ],
+    }],
+  );
+
+  assertEquals(comparison.failedInBase, [
+    { jobName: "linux", name: "flaky", path: "a.ts" },
+    { jobName: "linux", name: "parent", path: "d.ts" },
+    { jobName: "linux", name: "parent > child", path: "d.ts" },
+  ]);
+  assertEquals(comparison.failedInHead, [
+    { jobName: "linux", name: "broken", path: "b.ts" },
+  ]);
+});
+
+Deno.test("compareAttempts only compares same job", () => {
+  const comparison = compareAttempts(
+    [{ name: "linux", tests: [{ name: "test", path: "a.ts", failed: true }] }],
+    [{ name: "macos", tests: [{ name: "test", path: "a.ts" }] }],
+  );
+
+  assertEquals(comparison, { failedInBase: [], failedInHead: [] });
+});
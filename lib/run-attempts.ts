@@ -0,0 +1,115 @@
+import type {
+  Artifact,
+  GitHubApiClient,
+  WorkflowRun,
+} from "./github-api-client.ts";
+import type {
+  JobTestResults,
+  RecordedTestResult,
+} from "./test-results-downloader.ts";
+
+/**
+ * The time range in which an attempt uploaded its artifacts. GitHub's
+ * artifacts api is not attempt aware, so artifacts are assigned to an
+ * attempt based on when they were created.
+ */
+export interface AttemptWindow {
+  from: Date | undefined;
+  to: Date | undefined;
+}
+
+export async function getAttemptWindow(
+  githubClient: Pick<GitHubApiClient, "getWorkflowRun">,
+  run: WorkflowRun,
+  attempt: number,
+): Promise<AttemptWindow> {
+  const getAttempt = (attempt: number) =>
+    attempt === run.run_attempt
+      ? Promise.resolve(run)
+      : githubClient.getWorkflowRun(run.id, attempt);
+
+  const [current, next] = await Promise.all([
+    attempt > 1 ? getAttempt(attempt) : undefined,
+    attempt < run.run_attempt ? getAttempt(attempt + 1) : undefined,
+  ]);
+
+  return {
+    from: current != null ? new Date(current.run_started_at) : undefined,
+    to: next != null ? new Date(next.run_started_at) : undefined,
+  };
+}
+
+export function createAttemptArtifactFilter(window: AttemptWindow) {
+  return (artifact: Artifact) => {
+    const createdAt = new Date(artifact.created_at);
+    return (window.from == null || createdAt >= window.from) &&
+      (window.to == null || createdAt < window.to);
+  };
+}
+
+export interface AttemptTestChange {
+  jobName: string;
+  /** Name of the test including the names of its parent tests. */
+  name: string;
+  path: string;
+}
+
+export interface AttemptComparison {
+  /** Tests that failed in the base attempt and passed in the head attempt. */
+  failedInBase: AttemptTestChange[];
+  /** Tests that passed in the base attempt and failed in the head attempt. */
+  failedInHead: AttemptTestChange[];
+}
+
+/**
+ * Compares the tests that ran in both attempts. Tests that only ran in
+ * one of the attempts (ex. jobs that weren't re-run) are not included.
+ */
+export function compareAttempts(
+  base: JobTestResults[],
+  head: JobTestResults[],
+): AttemptComparison {
+  const baseTests = flattenResults(base);
+  const failedInBase: AttemptTestChange[] = [];
+  const failedInHead: AttemptTestChange[] = [];
+
+  for (const [key, headTest] of flattenResults(head)) {
+    const baseTest = baseTests.get(key);
+    if (baseTest == null || baseTest.ignored || headTest.ignored) {
+      continue;
+    }
+    if (baseTest.failed && !headTest.failed) {
+      failedInBase.push(headTest.change);
+    } else if (!baseTest.failed && headTest.failed) {
+      failedInHead.push(headTest.change);
+    }
+  }
+
+  return { failedInBase, failedInHead };
+}
+
+function flattenResults(results: JobTestResults[]) {
+  const tests = new Map<
+    string,
+    { change: AttemptTestChange; failed: boolean; ignored: boolean }
+  >();
+
+  function add(jobName: string, test: RecordedTestResult, parents: string[]) {
+    const names = [...parents, test.name];
+    const change = { jobName, name: names.join(" > "), path: test.path };
+    tests.set(`${jobName}::${test.path}::${change.name}`, {
+      change,
+      failed: test.failed === true,
+      ignored: test.ignored === true,
+    });
+    test.subTests?.forEach((subTest) => add(jobName, subTest, names));
+  }
+
+  for (const jobResults of results) {
+    for (const test of jobResults.tests) {
+      add(jobResults.name, test, []);
+    }
+  }
+
+  return tests;
+}
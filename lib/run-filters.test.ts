@@ -0,0 +1,59 @@
+import { assertEquals } from "@std/assert";
+import {
+  parseRunFilters,
+  runFiltersToSearchParams,
+  toWorkflowRunFilters,
+} from "./run-filters.ts";
+
+Deno.test("parseRunFilters reads the query string", () => {
+  const filters = parseRunFilters(
+    new URLSearchParams(
+      "branch=main&event=schedule&status=failure&actor=octocat&created_from=2025-01-01&created_to=2025-01-02",
+    ),
+  );
+
+  assertEquals(filters, {
+    branch: "main",
+    event: "schedule",
+    status: "failure",
+    actor: "octocat",
+    createdFrom: "2025-01-01",
+    createdTo: "2025-01-02",
+  });
+});
+
+Deno.test("parseRunFilters ignores empty and invalid values", () => {
+  const filters = parseRunFilters(
+    new URLSearchParams(
+      "branch=&event=other&status=bad&actor=%20&created_from=yesterday",
+    ),
+  );
+
+  assertEquals(filters, {});
+});
+
+Deno.test("runFiltersToSearchParams round trips", () => {
+  const filters = { branch: "main", createdTo: "2025-01-02" };
+  const params = runFiltersToSearchParams(filters);
+
+  assertEquals(params, { branch: "main", created_to: "2025-01-02" });
+  assertEquals(parseRunFilters(new URLSearchParams(params)), filters);
+});
+
+Deno.test("toWorkflowRunFilters builds created date range", () => {
+  assertEquals(
+    toWorkflowRunFilters({
+      event: "schedule",
+      createdFrom: "2025-01-01",
+      createdTo: "2025-01-02",
+    }),
+    { event: "schedule", created: "2025-01-01..2025-01-02" },
+  );
+  assertEquals(toWorkflowRunFilters({ createdFrom: "2025-01-01" }), {
+    created: ">=2025-01-01",
+  });
+  assertEquals(toWorkflowRunFilters({ createdTo: "2025-01-02" }), {
+    created: "<=2025-01-02",
+  });
+  assertEquals(toWorkflowRunFilters({}), {});
+});
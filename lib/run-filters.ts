@@ -0,0 +1,110 @@
+import type { WorkflowRunFilters } from "./github-api-client.ts";
+
+export const RUN_EVENTS = [
+  "push",
+  "pull_request",
+  "merge_group",
+  "schedule",
+  "workflow_dispatch",
+] as const;
+
+export const RUN_STATUSES = [
+  "success",
+  "failure",
+  "cancelled",
+  "timed_out",
+  "completed",
+  "in_progress",
+  "queued",
+] as const;
+
+/** Filters for the run list, as found in the page's query string. */
+export interface RunFilters {
+  branch?: string;
+  event?: string;
+  status?: string;
+  actor?: string;
+  /** Date formatted as `YYYY-MM-DD`. */
+  createdFrom?: string;
+  /** Date formatted as `YYYY-MM-DD`. */
+  createdTo?: string;
+}
+
+const SEARCH_PARAM_NAMES: Record<keyof RunFilters, string> = {
+  branch: "branch",
+  event: "event",
+  status: "status",
+  actor: "actor",
+  createdFrom: "created_from",
+  createdTo: "created_to",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Reads the filters from the query string, ignoring invalid values. */
+export function parseRunFilters(searchParams: URLSearchParams): RunFilters {
+  const get = (key: keyof RunFilters) =>
+    searchParams.get(SEARCH_PARAM_NAMES[key])?.trim() || undefined;
+  const getDate = (key: keyof RunFilters) => {
+    const value = get(key);
+    return value != null && DATE_PATTERN.test(value) ? value : undefined;
+  };
+  const event = get("event");
+  const status = get("status");
+
+  return removeUndefined({
+    branch: get("branch"),
+    event: (RUN_EVENTS as readonly string[]).includes(event!)
+      ? event
+      : undefined,
+    status: (RUN_STATUSES as readonly string[]).includes(status!)
+      ? status
+      : undefined,
+    actor: get("actor"),
+    createdFrom: getDate("createdFrom"),
+    createdTo: getDate("createdTo"),
+  });
+}
+
+/** Gets the query string parameters for the filters. */
+export function runFiltersToSearchParams(
+  filters: RunFilters,
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, name] of Object.entries(SEARCH_PARAM_NAMES)) {
+    const value = filters[key as keyof RunFilters];
+    if (value != null) {
+      params[name] = value;
+    }
+  }
+  return params;
+}
+
+/** Converts the filters to the ones supported by GitHub's api. */
+export function toWorkflowRunFilters(filters: RunFilters): WorkflowRunFilters {
+  return removeUndefined({
+    branch: filters.branch,
+    event: filters.event,
+    status: filters.status,
+    actor: filters.actor,
+    created: getCreatedQuery(filters.createdFrom, filters.createdTo),
+  });
+}
+
+function getCreatedQuery(from: string | undefined, to: string | undefined) {
+  if (from != null && to != null) {
+    return `${from}..${to}`;
+  } else if (from != null) {
+    return `>=${from}`;
+  } else if (to != null) {
+    return `<=${to}`;
+  } else {
+    return undefined;
+  }
+}
+
+function removeUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, value]) => value !== undefined),
+  ) as T;
+}
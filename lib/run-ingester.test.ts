@@ -0,0 +1,132 @@
+import { assertEquals } from "@std/assert";
+import { RunIngester } from "./run-ingester.ts";
+import { SqliteHistoryDatabase } from "./history-database.ts";
+import { NullLogger } from "./logger.ts";
+import type { WorkflowRun, WorkflowRunFilters } from "./github-api-client.ts";
+import { createWorkflowRun } from "./testing.ts";
+import type { RunTestResults } from "./test-results-downloader.ts";
+
+const repository = { owner: "denoland", name: "deno" };
+
+class MockGitHubApiClient {
+  runs = new Map<number, WorkflowRun>();
+  requestedFilters: WorkflowRunFilters[] = [];
+
+  getWorkflowRun(runId: number): Promise<WorkflowRun | undefined> {
+    return Promise.resolve(this.runs.get(runId));
+  }
+
+  listWorkflowRuns(
+    _workflow: string,
+    perPage: number,
+    page: number,
+    filters: WorkflowRunFilters = {},
+  ) {
+    this.requestedFilters.push(filters);
+    const runs = [...this.runs.values()]
+      .slice((page - 1) * perPage, page * perPage);
+    return Promise.resolve({ runs, totalCount: this.runs.size });
+  }
+}
+
+class MockTestResultsDownloader {
+  downloadedRunIds: number[] = [];
+  failArtifacts = false;
+
+  downloadForRunId(runId: number): Promise<RunTestResults> {
+    this.downloadedRunIds.push(runId);
+    return Promise.resolve({
+      results: [{ name: "linux", tests: [{ name: "test", path: "a.ts" }] }],
+      artifacts: [{
+        artifactName: "test-results-linux.json",
+        resultsName: "linux",
+        status: this.failArtifacts ? "failed" : "downloaded",
+        expiresAt: "2025-04-01T00:00:00Z",
+      }],
+    });
+  }
+}
+
+function createIngester() {
+  const client = new MockGitHubApiClient();
+  const downloader = new MockTestResultsDownloader();
+  const db = new SqliteHistoryDatabase(":memory:");
+  const ingester = new RunIngester(
+    new NullLogger(),
+    client,
+    downloader,
+    db,
+    repository,
+  );
+  return { client, downloader, db, ingester };
+}
+
+Deno.test("ingests a run once per attempt", async () => {
+  const { client, downloader, db, ingester } = createIngester();
+  client.runs.set(1, createWorkflowRun());
+
+  assertEquals(await ingester.ingestRun(1), {
+    runId: 1,
+    status: "ingested",
+    testCount: 1,
+  });
+  assertEquals((await ingester.ingestRun(1)).status, "unchanged");
+  assertEquals(downloader.downloadedRunIds, [1]);
+  assertEquals(db.getRunResults(repository, 1)?.results[0].tests.length, 1);
+
+  client.runs.set(1, { ...createWorkflowRun(), run_attempt: 2 });
+  assertEquals((await ingester.ingestRun(1)).status, "ingested");
+  assertEquals(
+    (await ingester.ingestRun(1, { force: true })).status,
+    "ingested",
+  );
+  assertEquals(downloader.downloadedRunIds, [1, 1, 1]);
+  db.close();
+});
+
+Deno.test("retries runs with failed artifacts", async () => {
+  const { client, downloader, db, ingester } = createIngester();
+  client.runs.set(1, createWorkflowRun());
+  downloader.failArtifacts = true;
+  await ingester.ingestRun(1);
+  downloader.failArtifacts = false;
+
+  assertEquals((await ingester.ingestRun(1)).status, "ingested");
+  assertEquals((await ingester.ingestRun(1)).status, "unchanged");
+  db.close();
+});
+
+Deno.test("skips runs that are missing or not completed", async () => {
+  const { client, downloader, db, ingester } = createIngester();
+  client.runs.set(
+    1,
+    createWorkflowRun({ id: 1, status: "in_progress", conclusion: null }),
+  );
+
+  assertEquals((await ingester.ingestRun(1)).status, "incomplete");
+  assertEquals((await ingester.ingestRun(2)).status, "not_found");
+  assertEquals(downloader.downloadedRunIds, []);
+  db.close();
+});
+
+Deno.test("backfills up to the maximum number of runs", async () => {
+  const { client, downloader, db, ingester } = createIngester();
+  for (let id = 1; id <= 150; id++) {
+    client.runs.set(id, createWorkflowRun({ id }));
+  }
+  await ingester.ingestRun(1);
+
+  const results = await ingester.backfill("ci.yml", {
+    branch: "main",
+    maxRuns: 120,
+  });
+
+  assertEquals(results.length, 120);
+  assertEquals(results[0].status, "unchanged");
+  assertEquals(downloader.downloadedRunIds.length, 120);
+  assertEquals(client.requestedFilters, [
+    { branch: "main", status: "completed" },
+    { branch: "main", status: "completed" },
+  ]);
+  db.close();
+});
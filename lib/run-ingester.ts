@@ -0,0 +1,110 @@
+import type { Repository } from "./config.ts";
+import type { GitHubApiClient, WorkflowRun } from "./github-api-client.ts";
+import type { HistoryDatabase } from "./history-database.ts";
+import type { Logger } from "./logger.ts";
+import type { TestResultsDownloader } from "./test-results-downloader.ts";
+
+export interface IngestResult {
+  runId: number;
+  status: "ingested" | "unchanged" | "incomplete" | "not_found";
+  /** Number of top level tests that were stored. */
+  testCount: number;
+}
+
+export interface BackfillOptions {
+  branch?: string;
+  /** Maximum number of completed runs to ingest. */
+  maxRuns: number;
+  /** Re-ingests runs that are already stored. */
+  force?: boolean;
+}
+
+/** Downloads the test results of completed runs into the history database. */
+export class RunIngester {
+  readonly #logger: Logger;
+  readonly #githubClient: Pick<
+    GitHubApiClient,
+    "getWorkflowRun" | "listWorkflowRuns"
+  >;
+  readonly #downloader: Pick<TestResultsDownloader, "downloadForRunId">;
+  readonly #db: HistoryDatabase;
+  readonly #repository: Repository;
+
+  constructor(
+    logger: Logger,
+    githubClient: Pick<GitHubApiClient, "getWorkflowRun" | "listWorkflowRuns">,
+    downloader: Pick<TestResultsDownloader, "downloadForRunId">,
+    db: HistoryDatabase,
+    repository: Repository,
+  ) {
+    this.#logger = logger;
+    this.#githubClient = githubClient;
+    this.#downloader = downloader;
+    this.#db = db;
+    this.#repository = repository;
+  }
+
+  /**
+   * Stores the results of a run. Runs that are already stored for the
+   * same attempt are skipped unless some of their artifacts failed.
+   */
+  async ingestRun(
+    runId: number,
+    options: { force?: boolean } = {},
+  ): Promise<IngestResult> {
+    const run = await this.#githubClient.getWorkflowRun(runId);
+    if (run == null) {
+      return { runId, status: "not_found", testCount: 0 };
+    }
+    return await this.#ingest(run, options.force ?? false);
+  }
+
+  /** Ingests the most recent completed runs of a workflow. */
+  async backfill(
+    workflow: string,
+    options: BackfillOptions,
+  ): Promise<IngestResult[]> {
+    const results: IngestResult[] = [];
+    for (let page = 1; results.length < options.maxRuns; page++) {
+      const { runs } = await this.#githubClient.listWorkflowRuns(
+        workflow,
+        100,
+        page,
+        { branch: options.branch, status: "completed" },
+      );
+      for (const run of runs.slice(0, options.maxRuns - results.length)) {
+        const result = await this.#ingest(run, options.force ?? false);
+        this.#logger.log(`Run ${run.id}: ${result.status}`);
+        results.push(result);
+      }
+      if (runs.length < 100) {
+        break;
+      }
+    }
+    return results;
+  }
+
+  async #ingest(run: WorkflowRun, force: boolean): Promise<IngestResult> {
+    if (run.status !== "completed") {
+      return { runId: run.id, status: "incomplete", testCount: 0 };
+    }
+    const stored = this.#db.getRun(this.#repository, run.id);
+    if (
+      !force && stored != null && stored.runAttempt === run.run_attempt &&
+      !stored.hasFailedArtifacts
+    ) {
+      return { runId: run.id, status: "unchanged", testCount: 0 };
+    }
+
+    const results = await this.#downloader.downloadForRunId(run.id);
+    this.#db.saveRun(this.#repository, run, results);
+    return {
+      runId: run.id,
+      status: "ingested",
+      testCount: results.results.reduce(
+        (count, job) => count + job.tests.length,
+        0,
+      ),
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { RunIngestionQueue } from "./run-ingestion-queue.ts";
+import { NullLogger } from "./logger.ts";
+
+const repository = { owner: "denoland", name: "deno" };
+
+Deno.test("processes runs one at a time", async () => {
+  let active = 0;
+  let maxActive = 0;
+  const processed: number[] = [];
+  const queue = new RunIngestionQueue(new NullLogger(), async (_, runId) => {
+    active++;
+    maxActive = Math.max(maxActive, active);
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    processed.push(runId);
+    active--;
+    return `run ${runId}`;
+  });
+
+  const first = queue.enqueue(repository, 1, 1);
+  queue.enqueue(repository, 2, 1);
+  assertEquals(await first, "run 1");
+  await queue.idle();
+  // starts again after becoming idle
+  await queue.enqueue(repository, 3, 1);
+
+  assertEquals(processed, [1, 2, 3]);
+  assertEquals(maxActive, 1);
+});
+
+Deno.test("queues each attempt once unless it failed", async () => {
+  let fail = true;
+  const queue = new RunIngestionQueue(new NullLogger(), () => {
+    return fail
+      ? Promise.reject(new Error("rate limited"))
+      : Promise.resolve("ok");
+  });
+
+  await assertRejects(() => queue.enqueue(repository, 1, 1)!, Error);
+  fail = false;
+  assertEquals(await queue.enqueue(repository, 1, 1), "ok");
+  assertEquals(queue.enqueue(repository, 1, 1), undefined);
+  assertEquals(await queue.enqueue(repository, 1, 2), "ok");
+});
@@ -0,0 +1,83 @@
+import { LruCache } from "@std/cache/lru-cache";
+import type { Repository } from "./config.ts";
+import type { Logger } from "./logger.ts";
+
+/** Downloads the results of a run and describes the outcome. */
+export type RunIngestionJob = (
+  repository: Repository,
+  runId: number,
+) => Promise<string>;
+
+interface QueuedRun {
+  key: string;
+  repository: Repository;
+  runId: number;
+  resolve: (detail: string) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Processes runs one at a time in the background. Each attempt of a
+ * run is only queued once so replayed events don't download it again,
+ * unless processing it failed.
+ */
+export class RunIngestionQueue {
+  readonly #logger: Logger;
+  readonly #job: RunIngestionJob;
+  readonly #seen: LruCache<string, true>;
+  #queue: QueuedRun[] = [];
+  #processing: Promise<void> | undefined;
+
+  constructor(logger: Logger, job: RunIngestionJob, maxSeen = 1000) {
+    this.#logger = logger;
+    this.#job = job;
+    this.#seen = new LruCache(maxSeen);
+  }
+
+  get size(): number {
+    return this.#queue.length;
+  }
+
+  /**
+   * Queues the attempt of a run, resolving with the job's outcome once
+   * it's processed, or returns undefined when it was already queued.
+   */
+  enqueue(
+    repository: Repository,
+    runId: number,
+    attempt: number,
+  ): Promise<string> | undefined {
+    const key = `${repository.owner}/${repository.name}/${runId}/${attempt}`
+      .toLowerCase();
+    if (this.#seen.has(key)) {
+      return undefined;
+    }
+    this.#seen.set(key, true);
+    const { promise, resolve, reject } = Promise.withResolvers<string>();
+    this.#queue.push({ key, repository, runId, resolve, reject });
+    this.#processing ??= this.#process();
+    return promise;
+  }
+
+  /** Waits for the queued runs to be processed. */
+  async idle(): Promise<void> {
+    await this.#processing;
+  }
+
+  async #process() {
+    let next: QueuedRun | undefined;
+    while ((next = this.#queue.shift()) != null) {
+      try {
+        next.resolve(await this.#job(next.repository, next.runId));
+      } catch (error) {
+        this.#logger.logError(`Failed to ingest run ${next.runId}:`, error);
+        // allow a redelivery to try again
+        this.#seen.delete(next.key);
+        next.reject(error);
+      }
+    }
+    // cleared in the same tick the queue is found empty so that
+    // runs queued afterwards start processing again
+    this.#processing = undefined;
+  }
+}
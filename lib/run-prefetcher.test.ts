@@ -0,0 +1,53 @@
+import { assertEquals } from "@std/assert";
+import { RunPrefetcher } from "./run-prefetcher.ts";
+import { NullLogger } from "./logger.ts";
+import { RateLimitedError } from "./rate-limit.ts";
+
+const repositories = [
+  { owner: "denoland", name: "deno" },
+  { owner: "denoland", name: "std" },
+];
+
+Deno.test("prefetches every repository and workflow", async () => {
+  const prefetched: string[] = [];
+  const prefetcher = new RunPrefetcher(
+    new NullLogger(),
+    repositories,
+    ["ci.yml", "pr.yml"],
+    (repository, workflow) => {
+      prefetched.push(`${repository.name}:${workflow}`);
+      if (workflow === "pr.yml" && repository.name === "deno") {
+        return Promise.reject(new Error("failed"));
+      }
+      return Promise.resolve(true);
+    },
+  );
+
+  await prefetcher.tick();
+
+  assertEquals(prefetched, [
+    "deno:ci.yml",
+    "deno:pr.yml",
+    "std:ci.yml",
+    "std:pr.yml",
+  ]);
+});
+
+Deno.test("does not overlap ticks and stops when rate limited", async () => {
+  let calls = 0;
+  const prefetcher = new RunPrefetcher(
+    new NullLogger(),
+    repositories,
+    ["ci.yml"],
+    () => {
+      calls++;
+      return Promise.reject(new RateLimitedError(new Date()));
+    },
+  );
+
+  const first = prefetcher.tick();
+  assertEquals(prefetcher.tick(), first);
+  await first;
+
+  assertEquals(calls, 1);
+});
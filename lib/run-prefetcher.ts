@@ -0,0 +1,85 @@
+import type { Repository } from "./config.ts";
+import type { Logger } from "./logger.ts";
+import { RateLimitedError } from "./rate-limit.ts";
+
+/**
+ * Refreshes the insights of a workflow, which downloads the artifacts of
+ * new runs. Returns whether anything changed.
+ */
+export type PrefetchJob = (
+  repository: Repository,
+  workflow: string,
+) => Promise<boolean>;
+
+/**
+ * Polls for newly completed main branch runs on an interval so their
+ * artifacts and the insights are ready before the page is opened.
+ */
+export class RunPrefetcher {
+  readonly #logger: Logger;
+  readonly #repositories: readonly Repository[];
+  readonly #workflows: readonly string[];
+  readonly #job: PrefetchJob;
+  #intervalId: ReturnType<typeof setInterval> | undefined;
+  #tick: Promise<void> | undefined;
+
+  constructor(
+    logger: Logger,
+    repositories: readonly Repository[],
+    workflows: readonly string[],
+    job: PrefetchJob,
+  ) {
+    this.#logger = logger;
+    this.#repositories = repositories;
+    this.#workflows = workflows;
+    this.#job = job;
+  }
+
+  /** Prefetches now and then every interval. */
+  start(intervalMs: number): void {
+    if (this.#intervalId != null) {
+      return;
+    }
+    const intervalId = setInterval(() => this.tick(), intervalMs);
+    // don't keep the process alive only for prefetching
+    Deno.unrefTimer(intervalId);
+    this.#intervalId = intervalId;
+    this.tick();
+  }
+
+  stop(): void {
+    clearInterval(this.#intervalId);
+    this.#intervalId = undefined;
+  }
+
+  /** Prefetches every configured workflow unless already in progress. */
+  tick(): Promise<void> {
+    return this.#tick ??= this.#prefetchAll().finally(() => {
+      this.#tick = undefined;
+    });
+  }
+
+  async #prefetchAll() {
+    for (const repository of this.#repositories) {
+      for (const workflow of this.#workflows) {
+        try {
+          if (await this.#job(repository, workflow)) {
+            this.#logger.log(
+              `Prefetched ${repository.owner}/${repository.name} ${workflow}`,
+            );
+          }
+        } catch (error) {
+          if (error instanceof RateLimitedError) {
+            // try again next interval
+            this.#logger.logWarn("Rate limited while prefetching");
+            return;
+          }
+          this.#logger.logError(
+            `Failed to prefetch ${repository.owner}/${repository.name} ${workflow}:`,
+            error,
+          );
+        }
+      }
+    }
+  }
+}
@@ -1,4 +1,8 @@
-import type { GitHubApiClient, WorkflowRun } from "./github-api-client.ts";
+import type {
+  GitHubApiClient,
+  WorkflowRun,
+  WorkflowRunFilters,
+} from "./github-api-client.ts";
 import type { ExtractInterface } from "./types.ts";
 
 export type { WorkflowRun };
@@ -12,20 +16,17 @@ export class RealRunsFetcher {
     this.#githubClient = githubClient;
   }
 
-  async fetchRecentRuns(
+  fetchRecentRuns(
+    workflow: string,
     perPage = 30,
     page = 1,
+    filters?: WorkflowRunFilters,
   ): Promise<{ runs: WorkflowRun[]; totalCount: number }> {
-    const result = await this.#githubClient.listWorkflowRuns(perPage, page);
-
-    // filter to only "ci" workflow runs
-    const filteredRuns = result.runs.filter(
-      (run) => run.name.toLowerCase() === "ci",
+    return this.#githubClient.listWorkflowRuns(
+      workflow,
+      perPage,
+      page,
+      filters,
     );
-
-    return {
-      runs: filteredRuns,
-      totalCount: result.totalCount,
-    };
   }
 }
@@ -1,11 +1,11 @@
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertRejects } from "@std/assert";
 import {
+  LruTestResultArtifactStore,
   type ParsedTestResultArtifact,
   RealTestResultsDownloader,
-  type RecordedTestResult,
 } from "./test-results-downloader.ts";
 import type { Artifact } from "./github-api-client.ts";
-import type { AsyncValue } from "./utils/async-value.ts";
+import { AsyncValue } from "./utils/async-value.ts";
 
 class MockGitHubApiClient {
   #artifacts: Map<number, Artifact[]> = new Map();
@@ -33,13 +33,9 @@ class MockGitHubApiClient {
 }
 
 class MockArtifactParser {
-  #results: Map<string, { name: string; tests: RecordedTestResult[] }> =
-    new Map();
+  #results: Map<string, ParsedTestResultArtifact> = new Map();
 
-  mockParseResult(
-    artifactName: string,
-    result: { name: string; tests: RecordedTestResult[] },
-  ) {
+  mockParseResult(artifactName: string, result: ParsedTestResultArtifact) {
     this.#results.set(artifactName, result);
   }
 
@@ -54,6 +50,7 @@ class MockArtifactParser {
 
 class MockTestResultArtifactStore
   extends Map<string, AsyncValue<ParsedTestResultArtifact>> {
+  stats = { hits: 0, misses: 0, errors: 0 };
 }
 
 function createMockArtifact(
@@ -115,7 +112,7 @@ Deno.test("download test results for run", async () => {
   });
 
   // Execute
-  const results = await downloader.downloadForRunId(12345);
+  const { results } = await downloader.downloadForRunId(12345);
 
   // Verify
   assertEquals(results.length, 2);
@@ -156,14 +153,14 @@ Deno.test("filter non-matching artifacts", async () => {
   });
 
   // Execute
-  const results = await downloader.downloadForRunId(456);
+  const { results } = await downloader.downloadForRunId(456);
 
   // Verify - only test-results-ci.json should match the pattern
   assertEquals(results.length, 1);
   assertEquals(results[0].name, "ci");
 });
 
-Deno.test("cache artifacts by download URL", async () => {
+Deno.test("cache artifacts by id", async () => {
   const mockClient = new MockGitHubApiClient();
   const mockParser = new MockArtifactParser();
   const mockStore = new MockTestResultArtifactStore();
@@ -200,9 +197,9 @@ Deno.test("cache artifacts by download URL", async () => {
   };
 
   // Execute multiple times
-  const results1 = await downloader.downloadForRunId(789);
-  const results2 = await downloader.downloadForRunId(789);
-  const results3 = await downloader.downloadForRunId(789);
+  const { results: results1 } = await downloader.downloadForRunId(789);
+  const { results: results2 } = await downloader.downloadForRunId(789);
+  const { results: results3 } = await downloader.downloadForRunId(789);
 
   // Verify - parse should only be called once due to caching
   assertEquals(parseCallCount, 1);
@@ -229,7 +226,7 @@ Deno.test("handle empty artifact list", async () => {
   mockClient.mockArtifacts(999, []);
 
   // Execute
-  const results = await downloader.downloadForRunId(999);
+  const { results } = await downloader.downloadForRunId(999);
 
   // Verify
   assertEquals(results.length, 0);
@@ -294,7 +291,7 @@ Deno.test("handle complex test results", async () => {
   });
 
   // Execute
-  const results = await downloader.downloadForRunId(111);
+  const { results } = await downloader.downloadForRunId(111);
 
   // Verify
   assertEquals(results.length, 1);
@@ -362,7 +359,7 @@ Deno.test("download multiple artifacts in parallel", async () => {
 
   // Execute
   const startTime = Date.now();
-  const results = await downloader.downloadForRunId(222);
+  const { results } = await downloader.downloadForRunId(222);
   const duration = Date.now() - startTime;
 
   // Verify - should complete quickly due to parallel processing
@@ -430,7 +427,7 @@ Deno.test("merge split artifacts by job", async () => {
     },
   );
 
-  const results = await downloader.downloadForRunId(444);
+  const { results } = await downloader.downloadForRunId(444);
 
   // linux-x86_64-debug artifacts should be merged into one
   assertEquals(results.length, 2);
@@ -442,6 +439,44 @@ Deno.test("merge split artifacts by job", async () => {
   assertEquals(results[1].tests.length, 1);
 });
 
+Deno.test("filter artifacts with provided filter", async () => {
+  const mockClient = new MockGitHubApiClient();
+  const mockParser = new MockArtifactParser();
+  const mockStore = new MockTestResultArtifactStore();
+
+  const downloader = new RealTestResultsDownloader(
+    mockParser,
+    mockClient,
+    mockStore,
+  );
+
+  mockClient.mockArtifacts(666, [
+    createMockArtifact(
+      1,
+      "test-results-linux.json",
+      "https://example.com/1.zip",
+    ),
+    createMockArtifact(
+      2,
+      "test-results-macos.json",
+      "https://example.com/2.zip",
+    ),
+  ]);
+  mockClient.mockBlob("https://example.com/2.zip", new Blob(["test"]));
+  mockParser.mockParseResult("test-results-macos.json", {
+    name: "macos",
+    tests: [],
+  });
+
+  const { results } = await downloader.downloadForRunId(
+    666,
+    (artifact) => artifact.id === 2,
+  );
+
+  assertEquals(results.length, 1);
+  assertEquals(results[0].name, "macos");
+});
+
 Deno.test("store is shared across downloads", async () => {
   const mockClient = new MockGitHubApiClient();
   const mockParser = new MockArtifactParser();
@@ -474,10 +509,288 @@ Deno.test("store is shared across downloads", async () => {
   await downloader.downloadForRunId(333);
 
   // Verify store has the cached value
-  const cachedValue = mockStore.get("https://example.com/shared.zip");
+  const cachedValue = mockStore.get("1");
   assertEquals(cachedValue !== undefined, true);
 
   // Get the cached value
   const cached = await cachedValue!.get();
   assertEquals(cached.name, "shared");
 });
+
+Deno.test("evict aborted downloads from store", async () => {
+  const mockClient = new MockGitHubApiClient();
+  const mockParser = new MockArtifactParser();
+  const mockStore = new MockTestResultArtifactStore();
+
+  const downloader = new RealTestResultsDownloader(
+    mockParser,
+    mockClient,
+    mockStore,
+  );
+
+  mockClient.mockArtifacts(555, [
+    createMockArtifact(
+      1,
+      "test-results-aborted.json",
+      "https://example.com/aborted.zip",
+    ),
+  ]);
+  mockClient.downloadArtifact = () =>
+    Promise.reject(new DOMException("Aborted", "AbortError"));
+
+  await assertRejects(() => downloader.downloadForRunId(555));
+
+  assertEquals(mockStore.has("1"), false);
+});
+
+Deno.test("share downloads with requests that outlive the first one", async () => {
+  const mockClient = new MockGitHubApiClient();
+  const mockParser = new MockArtifactParser();
+  const mockStore = new MockTestResultArtifactStore();
+  const controller = new AbortController();
+  const firstDownloader = new RealTestResultsDownloader(
+    mockParser,
+    mockClient,
+    mockStore,
+    undefined,
+    controller.signal,
+  );
+  const secondDownloader = new RealTestResultsDownloader(
+    mockParser,
+    mockClient,
+    mockStore,
+    undefined,
+    new AbortController().signal,
+  );
+
+  mockClient.mockArtifacts(777, [
+    createMockArtifact(
+      1,
+      "test-results-linux.json",
+      "https://example.com/linux.zip",
+    ),
+  ]);
+  const download = Promise.withResolvers<Blob>();
+  mockClient.downloadArtifact = () => download.promise;
+  mockParser.mockParseResult("test-results-linux.json", {
+    name: "linux",
+    tests: [{ name: "test1", path: "test1.ts" }],
+  });
+
+  const first = firstDownloader.downloadForRunId(777);
+  const second = secondDownloader.downloadForRunId(777);
+  // let both wait on the same download
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  controller.abort();
+  await assertRejects(() => first, DOMException);
+
+  download.resolve(new Blob(["test"]));
+  const { results } = await second;
+  assertEquals(results[0].tests, [{ name: "test1", path: "test1.ts" }]);
+  assertEquals(mockStore.has("1"), true);
+});
+
+Deno.test("report expired and failed artifacts without failing run", async () => {
+  const mockClient = new MockGitHubApiClient();
+  const mockParser = new MockArtifactParser();
+  const downloader = new RealTestResultsDownloader(
+    mockParser,
+    mockClient,
+    new MockTestResultArtifactStore(),
+  );
+
+  const expired = createMockArtifact(
+    2,
+    "test-results-macos-aarch64-debug-unit.json",
+    "https://example.com/2.zip",
+  );
+  expired.expired = true;
+  mockClient.mockArtifacts(12345, [
+    createMockArtifact(
+      1,
+      "test-results-linux-x86_64-debug-unit.json",
+      "https://example.com/1.zip",
+    ),
+    expired,
+    createMockArtifact(
+      3,
+      "test-results-windows-x86_64-debug-unit.json",
+      "https://example.com/3.zip",
+    ),
+  ]);
+  mockClient.mockBlob("https://example.com/1.zip", new Blob(["test1"]));
+  mockClient.mockBlob("https://example.com/3.zip", new Blob(["test3"]));
+  mockParser.mockParseResult("test-results-linux-x86_64-debug-unit.json", {
+    name: "linux-x86_64-debug-unit",
+    tests: [{ name: "test1", path: "test1.ts" }],
+  });
+
+  const { results, artifacts } = await downloader.downloadForRunId(12345);
+
+  assertEquals(results, [{
+    name: "linux-x86_64-debug",
+    platform: { os: "linux", arch: "x86_64", buildType: "debug" },
+    tests: [{ name: "test1", path: "test1.ts" }],
+  }]);
+  assertEquals(artifacts, [
+    {
+      artifactName: "test-results-linux-x86_64-debug-unit.json",
+      resultsName: "linux-x86_64-debug",
+      status: "downloaded",
+      expiresAt: "2025-01-31T00:00:00Z",
+    },
+    {
+      artifactName: "test-results-macos-aarch64-debug-unit.json",
+      resultsName: "macos-aarch64-debug",
+      status: "expired",
+      expiresAt: "2025-01-31T00:00:00Z",
+    },
+    {
+      artifactName: "test-results-windows-x86_64-debug-unit.json",
+      resultsName: "windows-x86_64-debug",
+      status: "failed",
+      expiresAt: "2025-01-31T00:00:00Z",
+      error: {
+        name: "Error",
+        message:
+          "No mock result for artifact: test-results-windows-x86_64-debug-unit.json",
+      },
+    },
+  ]);
+});
+
+Deno.test("store keeps failed entries until cooldown passes", async () => {
+  const store = new LruTestResultArtifactStore({ errorCooldownMs: 60_000 });
+  const failed = new AsyncValue<ParsedTestResultArtifact>(() =>
+    Promise.reject(new Error("Failed to download artifact"))
+  );
+  store.set("1", failed);
+  await assertRejects(() => failed.get());
+
+  assertEquals(store.get("1"), failed);
+  assertEquals(store.stats, { hits: 1, misses: 0, errors: 1 });
+});
+
+Deno.test("store evicts failed entries after cooldown", async () => {
+  const store = new LruTestResultArtifactStore({ errorCooldownMs: 0 });
+  const failed = new AsyncValue<ParsedTestResultArtifact>(() =>
+    Promise.reject(new Error("Failed to download artifact"))
+  );
+  store.set("1", failed);
+  await assertRejects(() => failed.get());
+
+  assertEquals(store.get("1"), undefined);
+  assertEquals(store.stats, { hits: 0, misses: 1, errors: 1 });
+});
+
+Deno.test("store expires entries after ttl", async () => {
+  const value = new AsyncValue(() =>
+    Promise.resolve({ name: "linux", tests: [] })
+  );
+  await value.get();
+
+  const store = new LruTestResultArtifactStore({
+    errorCooldownMs: 0,
+    ttlMs: 60_000,
+  });
+  store.set("1", value);
+  assertEquals(store.get("1"), value);
+
+  const expiringStore = new LruTestResultArtifactStore({
+    errorCooldownMs: 0,
+    ttlMs: 0,
+  });
+  expiringStore.set("1", value);
+  assertEquals(expiringStore.get("1"), undefined);
+  assertEquals(expiringStore.stats, { hits: 0, misses: 1, errors: 0 });
+});
+
+Deno.test("report parse warnings of downloaded artifacts", async () => {
+  const mockClient = new MockGitHubApiClient();
+  const mockParser = new MockArtifactParser();
+  const downloader = new RealTestResultsDownloader(
+    mockParser,
+    mockClient,
+    new MockTestResultArtifactStore(),
+  );
+  mockClient.mockArtifacts(12345, [
+    createMockArtifact(1, "test-results-linux.json", "https://example.com/1"),
+  ]);
+  mockClient.mockBlob("https://example.com/1", new Blob(["test1"]));
+  const warnings = [{ path: "/tests/1/name", message: "must be a string" }];
+  mockParser.mockParseResult("test-results-linux.json", {
+    name: "linux",
+    tests: [{ name: "test1", path: "test1.ts" }],
+    warnings,
+  });
+
+  const { artifacts } = await downloader.downloadForRunId(12345);
+
+  assertEquals(artifacts, [{
+    artifactName: "test-results-linux.json",
+    resultsName: "linux",
+    status: "downloaded",
+    expiresAt: "2025-01-31T00:00:00Z",
+    warnings,
+  }]);
+});
+
+Deno.test("report the results files of downloaded artifacts", async () => {
+  const mockClient = new MockGitHubApiClient();
+  const mockParser = new MockArtifactParser();
+  const downloader = new RealTestResultsDownloader(
+    mockParser,
+    mockClient,
+    new MockTestResultArtifactStore(),
+  );
+  mockClient.mockArtifacts(12345, [
+    createMockArtifact(1, "test-results-linux.json", "https://example.com/1"),
+    createMockArtifact(2, "test-results-mac.json", "https://example.com/2"),
+  ]);
+  mockClient.mockBlob("https://example.com/1", new Blob(["test1"]));
+  mockClient.mockBlob("https://example.com/2", new Blob(["test2"]));
+  const files = [
+    { fileName: "results.json", testCount: 1 },
+    { fileName: "package.json", testCount: 0, error: "not test results" },
+  ];
+  mockParser.mockParseResult("test-results-linux.json", {
+    name: "linux",
+    tests: [{ name: "test1", path: "test1.ts", sourceFile: "results.json" }],
+    files,
+  });
+  mockParser.mockParseResult("test-results-mac.json", {
+    name: "mac",
+    tests: [{ name: "test2", path: "test2.ts" }],
+    files: [{ fileName: "test-results-mac.json", testCount: 1 }],
+  });
+
+  const { artifacts } = await downloader.downloadForRunId(12345);
+
+  assertEquals(artifacts, [{
+    artifactName: "test-results-linux.json",
+    resultsName: "linux",
+    status: "downloaded",
+    expiresAt: "2025-01-31T00:00:00Z",
+    files,
+  }, {
+    artifactName: "test-results-mac.json",
+    resultsName: "mac",
+    status: "downloaded",
+    expiresAt: "2025-01-31T00:00:00Z",
+  }]);
+});
+
+Deno.test("flag results of runs with truncated artifact lists", async () => {
+  const mockClient = new MockGitHubApiClient();
+  const downloader = new RealTestResultsDownloader(
+    new MockArtifactParser(),
+    mockClient,
+    new MockTestResultArtifactStore(),
+  );
+  mockClient.listArtifacts = () =>
+    Promise.resolve(Object.assign([], { truncated: true }));
+
+  const { truncated } = await downloader.downloadForRunId(1);
+
+  assertEquals(truncated, true);
+});
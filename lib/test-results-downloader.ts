@@ -1,10 +1,19 @@
 import type { Artifact, GitHubApiClient } from "./github-api-client.ts";
 import { LruCache } from "@std/cache/lru-cache";
 import { AsyncValue } from "./utils/async-value.ts";
+import { abortable } from "./utils/abortable.ts";
 import type { ExtractInterface } from "./types.ts";
 import type { ArtifactParser } from "./artifact-parser.ts";
+import { RateLimitedError } from "./rate-limit.ts";
+import {
+  formatPlatform,
+  getJobPlatform,
+  parseResultsPlatform,
+  type PlatformDescriptor,
+} from "./platform.ts";
 
-const ARTIFACT_PATTERN = /^test-results-.*\.json$/;
+/** Names of the artifacts that contain test results by default. */
+export const defaultArtifactNamePattern = /^test-results-.*\.(json|xml)$/;
 
 export interface RecordedTestResult {
   name: string;
@@ -14,27 +23,150 @@ export interface RecordedTestResult {
   ignored?: true;
   flakyCount?: number;
   subTests?: RecordedTestResult[];
+  /**
+   * File in the artifact the test was read from, which is only set when
+   * the artifact contains more than one results file.
+   */
+  sourceFile?: string;
 }
 
 export interface JobTestResults {
   name: string;
+  /** Platform of the job the results were produced by. */
+  platform?: PlatformDescriptor;
   tests: RecordedTestResult[];
 }
 
 export interface ParsedTestResultArtifact {
   name: string;
   tests: RecordedTestResult[];
+  /** Problems with entries that were dropped from the tests. */
+  warnings?: ParseWarning[];
+  /** Results files the tests were read from when parsed from a zip. */
+  files?: ParsedResultsFile[];
+}
+
+export interface ParsedResultsFile {
+  /** Path of the file in the artifact (ex. `test-results-linux-unit.json`). */
+  fileName: string;
+  testCount: number;
+  /** Reason the file was skipped when it doesn't contain test results. */
+  error?: string;
+}
+
+export interface ParseWarning {
+  /** JSON pointer to the invalid value (ex. `/tests/3/duration`). */
+  path: string;
+  message: string;
+  /** Results file with the invalid value when the artifact has several. */
+  sourceFile?: string;
+}
+
+export interface ArtifactError {
+  name: string;
+  message: string;
+}
+
+export interface ArtifactResult {
+  /** Name of the artifact (ex. `test-results-linux-x86_64-debug-unit.json`). */
+  artifactName: string;
+  /** Name of the job results the artifact is merged into (ex. `linux-x86_64-debug`). */
+  resultsName: string;
+  status: "downloaded" | "expired" | "failed";
+  expiresAt: string;
+  /** Reason the artifact could not be downloaded or parsed. */
+  error?: ArtifactError;
+  /** Invalid test entries that were left out of the results. */
+  warnings?: ParseWarning[];
+  /** Results files of the artifact when it has several. */
+  files?: ParsedResultsFile[];
+}
+
+export interface RunTestResults {
+  results: JobTestResults[];
+  /** All the test result artifacts of the run, including the unusable ones. */
+  artifacts: ArtifactResult[];
+  /** Whether the run had more artifacts than could be listed. */
+  truncated?: boolean;
+}
+
+export interface ArtifactStoreStats {
+  hits: number;
+  misses: number;
+  /** Number of stored values that failed to download or parse. */
+  errors: number;
 }
 
 export interface TestResultArtifactStore {
+  readonly stats: ArtifactStoreStats;
   get(key: string): AsyncValue<ParsedTestResultArtifact> | undefined;
   set(key: string, value: AsyncValue<ParsedTestResultArtifact>): void;
+  delete(key: string): boolean;
+}
+
+export interface ArtifactCachePolicy {
+  /** Time after which entries are evicted. Entries never expire when not set. */
+  ttlMs?: number;
+  /** Time until a failed entry is evicted so that it's downloaded again. */
+  errorCooldownMs: number;
 }
 
-export class LruTestResultArtifactStore
-  extends LruCache<string, AsyncValue<ParsedTestResultArtifact>> {
-  constructor() {
-    super(200);
+export const defaultArtifactCachePolicy: ArtifactCachePolicy = {
+  errorCooldownMs: 30_000,
+};
+
+interface ArtifactStoreEntry {
+  value: AsyncValue<ParsedTestResultArtifact>;
+  storedAt: number;
+  failedAt?: number;
+}
+
+export class LruTestResultArtifactStore implements TestResultArtifactStore {
+  readonly #cache: LruCache<string, ArtifactStoreEntry>;
+  readonly #policy: ArtifactCachePolicy;
+  readonly #stats: ArtifactStoreStats = { hits: 0, misses: 0, errors: 0 };
+
+  constructor(policy = defaultArtifactCachePolicy, maxEntries = 200) {
+    this.#cache = new LruCache(maxEntries);
+    this.#policy = policy;
+  }
+
+  get stats(): ArtifactStoreStats {
+    return { ...this.#stats };
+  }
+
+  get(key: string): AsyncValue<ParsedTestResultArtifact> | undefined {
+    const entry = this.#cache.get(key);
+    if (entry == null || this.#isStale(entry)) {
+      if (entry != null) {
+        this.#cache.delete(key);
+      }
+      this.#stats.misses++;
+      return undefined;
+    }
+    this.#stats.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: AsyncValue<ParsedTestResultArtifact>): void {
+    const entry: ArtifactStoreEntry = { value, storedAt: Date.now() };
+    this.#cache.set(key, entry);
+    value.get().catch(() => {
+      this.#stats.errors++;
+      entry.failedAt = Date.now();
+    });
+  }
+
+  delete(key: string): boolean {
+    return this.#cache.delete(key);
+  }
+
+  #isStale(entry: ArtifactStoreEntry) {
+    const now = Date.now();
+    return (entry.failedAt != null &&
+      now - entry.failedAt >= this.#policy.errorCooldownMs) ||
+      (this.#policy.ttlMs != null &&
+        now - entry.storedAt >= this.#policy.ttlMs);
   }
 }
 
@@ -47,76 +179,167 @@ export class RealTestResultsDownloader {
     "listArtifacts" | "downloadArtifact"
   >;
   readonly #store: TestResultArtifactStore;
+  readonly #artifactNamePattern: RegExp;
+  readonly #signal: AbortSignal | undefined;
 
+  /**
+   * The GitHub client must not be tied to a request since its downloads
+   * are shared through the store. Only waiting on them stops when the
+   * provided signal aborts.
+   */
   constructor(
     artifactParser: ArtifactParser,
     githubClient: Pick<GitHubApiClient, "listArtifacts" | "downloadArtifact">,
     store: TestResultArtifactStore,
+    artifactNamePattern: RegExp = defaultArtifactNamePattern,
+    signal?: AbortSignal,
   ) {
     this.#artifactParser = artifactParser;
     this.#githubClient = githubClient;
     this.#store = store;
+    this.#artifactNamePattern = artifactNamePattern;
+    this.#signal = signal;
   }
 
-  async downloadForRunId(runId: number): Promise<ParsedTestResultArtifact[]> {
-    const artifacts = await this.#githubClient.listArtifacts(runId);
-
+  /**
+   * Downloads the test results of a run. Artifacts that are expired or fail
+   * to download or parse are reported in the artifact results instead of
+   * failing the whole run.
+   */
+  async downloadForRunId(
+    runId: number,
+    artifactFilter?: (artifact: Artifact) => boolean,
+  ): Promise<RunTestResults> {
+    const artifacts = await abortable(
+      this.#githubClient.listArtifacts(runId),
+      this.#signal,
+    );
     const matchingArtifacts = artifacts.filter((artifact) =>
-      ARTIFACT_PATTERN.test(artifact.name)
+      this.#artifactNamePattern.test(artifact.name) &&
+      (artifactFilter == null || artifactFilter(artifact))
     );
-    const downloads = await Promise.all(
-      matchingArtifacts.map((artifact) => this.#downloadArtifact(artifact)),
+    const entries = await Promise.all(
+      matchingArtifacts.map(async (artifact) => {
+        const entry: ArtifactResult = {
+          artifactName: artifact.name,
+          resultsName: getJobResultsName(getResultsName(artifact.name)),
+          status: "downloaded",
+          expiresAt: artifact.expires_at,
+        };
+        if (artifact.expired) {
+          return { entry: { ...entry, status: "expired" as const } };
+        }
+        try {
+          const download = await abortable(
+            this.#downloadArtifact(artifact),
+            this.#signal,
+          );
+          if (download.warnings?.length) {
+            entry.warnings = download.warnings;
+          }
+          if (download.files != null && download.files.length > 1) {
+            entry.files = download.files;
+          }
+          return { entry, download };
+        } catch (error) {
+          if (error instanceof RateLimitedError || isAbortError(error)) {
+            throw error;
+          }
+          return {
+            entry: {
+              ...entry,
+              status: "failed" as const,
+              error: toArtifactError(error),
+            },
+          };
+        }
+      }),
     );
 
-    return mergeArtifactsByJob(downloads);
+    const runResults: RunTestResults = {
+      results: mergeArtifactsByJob(
+        entries.flatMap(({ download }) => download != null ? [download] : []),
+      ),
+      artifacts: entries.map(({ entry }) => entry),
+    };
+    if (artifacts.truncated) {
+      runResults.truncated = true;
+    }
+    return runResults;
   }
 
   #downloadArtifact(
     artifact: Artifact,
   ): Promise<ParsedTestResultArtifact> {
-    let value = this.#store.get(artifact.archive_download_url);
+    const key = artifact.id.toString();
+    let value = this.#store.get(key);
     if (!value) {
-      value = new AsyncValue(async () => {
+      const newValue = new AsyncValue(async () => {
         const blob = await this.#githubClient.downloadArtifact(
           artifact.archive_download_url,
         );
         return await this.#artifactParser.parse(artifact.name, blob);
       });
-      this.#store.set(artifact.archive_download_url, value);
+      newValue.get().catch((error) => {
+        // don't keep downloads that were cancelled
+        if (isAbortError(error) && this.#store.get(key) === newValue) {
+          this.#store.delete(key);
+        }
+      });
+      this.#store.set(key, newValue);
+      value = newValue;
     }
     return value.get();
   }
 }
 
+function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function toArtifactError(error: unknown): ArtifactError {
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: "Error", message: String(error) };
+}
+
+/** Gets the name of the results within an artifact (ex. `linux-x86_64-debug-unit`). */
+export function getResultsName(artifactName: string) {
+  return artifactName.replace(/^test-results-/, "").replace(
+    /\.(json|xml)$/,
+    "",
+  );
+}
+
+/**
+ * Gets the name of the job that the results belong to, which is the
+ * platform without the suite (ex. `linux-x86_64-debug` for
+ * `linux-x86_64-debug-integration`).
+ */
+function getJobResultsName(resultsName: string) {
+  return formatPlatform(getJobPlatform(parseResultsPlatform(resultsName)));
+}
+
 /**
- * Merges artifacts that belong to the same job. Artifacts follow the naming
- * pattern `{os}-{arch}-{build_type}-{suite}` (e.g. `linux-x86_64-debug-integration`).
- * This groups by the first three segments (os-arch-build_type) and concatenates
- * tests from each suite. Old-style names without suite segments are left as-is.
+ * Merges artifacts that belong to the same job, concatenating the
+ * tests from each suite.
  */
-function mergeArtifactsByJob(
+export function mergeArtifactsByJob(
   artifacts: ParsedTestResultArtifact[],
-): ParsedTestResultArtifact[] {
-  const groups = new Map<string, RecordedTestResult[]>();
-  const groupOrder: string[] = [];
+): JobTestResults[] {
+  const groups = new Map<string, JobTestResults>();
 
   for (const artifact of artifacts) {
-    const parts = artifact.name.split("-");
-    // new-style: os-arch-build_type-suite (4+ segments)
-    // old-style: os (1 segment, e.g. "linux")
-    const key = parts.length >= 4 ? parts.slice(0, 3).join("-") : artifact.name;
+    const platform = getJobPlatform(parseResultsPlatform(artifact.name));
+    const key = formatPlatform(platform);
 
     const existing = groups.get(key);
     if (existing) {
-      existing.push(...artifact.tests);
+      existing.tests.push(...artifact.tests);
     } else {
-      groupOrder.push(key);
-      groups.set(key, [...artifact.tests]);
+      groups.set(key, { name: key, platform, tests: [...artifact.tests] });
     }
   }
 
-  return groupOrder.map((key) => ({
-    name: key,
-    tests: groups.get(key)!,
-  }));
+  return Array.from(groups.values());
 }
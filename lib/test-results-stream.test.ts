@@ -0,0 +1,107 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { parseRecordedTestsStream } from "./test-results-stream.ts";
+import { validateRecordedTests } from "./test-results-validation.ts";
+
+async function* chunked(text: string, size: number) {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size);
+  }
+}
+
+const json = JSON.stringify(
+  {
+    version: 1,
+    'te"sts': [{ name: "not the tests", path: "x.ts" }],
+    metadata: { tests: "nested key", brackets: "]}[{", list: [[1], { a: [] }] },
+    tests: [
+      { name: 'with "quotes" and ]', path: "a.ts", duration: 10 },
+      {
+        name: "parent",
+        path: "b.ts",
+        subTests: [{ name: "child, with comma", path: "b.ts", failed: true }],
+      },
+      { name: "invalid", path: 1 },
+      { name: "unicode é \\ slash", path: "c.ts", flakyCount: 2 },
+    ],
+    trailing: null,
+  },
+  null,
+  2,
+);
+
+Deno.test("parses the tests regardless of how the text is chunked", async () => {
+  const expected = validateRecordedTests(JSON.parse(json).tests);
+  assertEquals(expected.tests.length, 3);
+  for (const size of [1, 2, 3, 7, 64, json.length]) {
+    assertEquals(
+      await parseRecordedTestsStream(chunked(json, size)),
+      expected,
+      `chunk size ${size}`,
+    );
+  }
+});
+
+Deno.test("parses empty tests", async () => {
+  assertEquals(
+    await parseRecordedTestsStream(chunked(`{"tests":[]}`, 3)),
+    { tests: [], warnings: [] },
+  );
+});
+
+Deno.test("rejects documents without a tests array", async () => {
+  for (const text of [`{"other":[]}`, `{"tests":{}}`, `[]`, `{"tests":"[]"}`]) {
+    await assertRejects(
+      () => parseRecordedTestsStream(chunked(text, 4)),
+      Error,
+      "/tests must be an array",
+    );
+  }
+});
+
+Deno.test("rejects malformed tests arrays", async () => {
+  for (
+    const text of [
+      `{"tests":[,{"name":"a","path":"a.ts"}]}`,
+      `{"tests":[{"name":"a","path":"a.ts"},,{"name":"b","path":"b.ts"}]}`,
+      `{"tests":[{"name":"a","path":"a.ts"},]}`,
+    ]
+  ) {
+    await assertRejects(
+      () => parseRecordedTestsStream(chunked(text, 4)),
+      SyntaxError,
+      "Missing element in /tests",
+    );
+  }
+});
+
+Deno.test("rejects a second tests key", async () => {
+  await assertRejects(
+    () =>
+      parseRecordedTestsStream(
+        chunked(`{"tests":[{"name":"a","path":"a.ts"}],"tests":[]}`, 4),
+      ),
+    SyntaxError,
+    "Duplicate tests key in JSON",
+  );
+});
+
+Deno.test("rejects data after the root object", async () => {
+  for (const text of [`{"tests":[]} x`, `{"tests":[]}{}`, `{"tests":[]}]`]) {
+    await assertRejects(
+      () => parseRecordedTestsStream(chunked(text, 4)),
+      SyntaxError,
+      "Unexpected data after JSON",
+    );
+  }
+});
+
+Deno.test("rejects truncated or malformed json", async () => {
+  await assertRejects(
+    () => parseRecordedTestsStream(chunked(`{"tests":[{"name":"a"`, 4)),
+    SyntaxError,
+  );
+  await assertRejects(
+    () => parseRecordedTestsStream(chunked(`{"tests":[{"name":}]}`, 4)),
+    SyntaxError,
+  );
+});
@@ -0,0 +1,192 @@
+import type {
+  ParseWarning,
+  RecordedTestResult,
+} from "./test-results-downloader.ts";
+import { RecordedTestsValidator } from "./test-results-validation.ts";
+
+const OPEN_BRACE = 0x7b; // {
+const CLOSE_BRACE = 0x7d; // }
+const OPEN_BRACKET = 0x5b; // [
+const CLOSE_BRACKET = 0x5d; // ]
+const QUOTE = 0x22; // "
+const BACKSLASH = 0x5c; // \
+const COLON = 0x3a; // :
+const COMMA = 0x2c; // ,
+
+/**
+ * Parses the tests of a `test-results-*.json` file as it's read so only one
+ * entry of the tests array is held as text at a time. Each entry is parsed
+ * and validated on its own, and the rest of the document is only scanned.
+ */
+export async function parseRecordedTestsStream(
+  stream: AsyncIterable<string>,
+): Promise<{ tests: RecordedTestResult[]; warnings: ParseWarning[] }> {
+  const scanner = new TestsScanner();
+  for await (const chunk of stream) {
+    scanner.write(chunk);
+  }
+  return scanner.end();
+}
+
+/**
+ * Finds the elements of the top level `tests` array by tracking strings
+ * and nesting, without building the rest of the document.
+ */
+class TestsScanner {
+  readonly #validator = new RecordedTestsValidator();
+  #depth = 0;
+  #inString = false;
+  #escaped = false;
+  #started = false;
+  /** Whether the next string in the root object is a key. */
+  #expectingKey = false;
+  #key: string[] | undefined;
+  #lastKey: string | undefined;
+  #testsState: "missing" | "array" | "done" | "invalid" = "missing";
+  #inTests = false;
+  #element: string[] | undefined;
+  /** Whether the tests array needs another element, which is after a comma. */
+  #expectingElement = false;
+  /** Whether the root object was closed. */
+  #ended = false;
+
+  write(chunk: string) {
+    let keyStart = 0;
+    let elementStart = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const code = chunk.charCodeAt(i);
+      if (this.#inString) {
+        if (this.#escaped) {
+          this.#escaped = false;
+        } else if (code === BACKSLASH) {
+          this.#escaped = true;
+        } else if (code === QUOTE) {
+          this.#inString = false;
+          if (this.#key != null) {
+            this.#key.push(chunk.slice(keyStart, i + 1));
+            this.#lastKey = JSON.parse(this.#key.join(""));
+            this.#key = undefined;
+          }
+        }
+        continue;
+      }
+      if (isWhitespace(code)) {
+        continue;
+      }
+      if (this.#ended) {
+        throw new SyntaxError("Unexpected data after JSON");
+      }
+      if (!this.#started) {
+        if (code !== OPEN_BRACE) {
+          throw new Error("/tests must be an array");
+        }
+        this.#started = true;
+      }
+
+      if (this.#inTests && this.#depth === 2) {
+        if (code === COMMA || code === CLOSE_BRACKET) {
+          if (this.#element != null) {
+            this.#element.push(chunk.slice(elementStart, i));
+            this.#validator.add(JSON.parse(this.#element.join("")));
+            this.#element = undefined;
+          } else if (code === COMMA || this.#expectingElement) {
+            throw new SyntaxError("Missing element in /tests");
+          }
+          this.#expectingElement = code === COMMA;
+          if (code === CLOSE_BRACKET) {
+            this.#inTests = false;
+            this.#testsState = "done";
+            this.#depth--;
+          }
+          continue;
+        }
+        if (this.#element == null) {
+          this.#element = [];
+          elementStart = i;
+        }
+      }
+
+      switch (code) {
+        case QUOTE:
+          this.#inString = true;
+          if (this.#depth === 1 && this.#expectingKey) {
+            this.#key = [];
+            keyStart = i;
+          } else if (this.#depth === 1) {
+            this.#startValue(code);
+          }
+          break;
+        case OPEN_BRACE:
+        case OPEN_BRACKET:
+          if (this.#depth === 1 && !this.#expectingKey) {
+            this.#startValue(code);
+          }
+          this.#depth++;
+          if (this.#depth === 1) {
+            this.#expectingKey = true;
+          }
+          break;
+        case CLOSE_BRACE:
+        case CLOSE_BRACKET:
+          this.#depth--;
+          if (this.#depth < 0) {
+            throw new SyntaxError("Unexpected closing bracket in JSON");
+          }
+          this.#ended = this.#depth === 0;
+          break;
+        case COLON:
+          if (this.#depth === 1) {
+            this.#expectingKey = false;
+          }
+          break;
+        case COMMA:
+          if (this.#depth === 1) {
+            this.#expectingKey = true;
+          }
+          break;
+        default:
+          if (this.#depth === 1 && !this.#expectingKey) {
+            this.#startValue(code);
+          }
+          break;
+      }
+    }
+    if (this.#key != null) {
+      this.#key.push(chunk.slice(keyStart));
+    }
+    if (this.#element != null) {
+      this.#element.push(chunk.slice(elementStart));
+    }
+  }
+
+  end(): { tests: RecordedTestResult[]; warnings: ParseWarning[] } {
+    if (this.#started && (this.#depth !== 0 || this.#inString)) {
+      throw new SyntaxError("Unexpected end of JSON input");
+    }
+    if (this.#testsState !== "done") {
+      throw new Error("/tests must be an array");
+    }
+    return {
+      tests: this.#validator.tests,
+      warnings: this.#validator.warnings,
+    };
+  }
+
+  /** Handles the first character of a value in the root object. */
+  #startValue(code: number) {
+    if (this.#lastKey === "tests") {
+      // `JSON.parse` would use the last one
+      if (this.#testsState !== "missing") {
+        throw new SyntaxError("Duplicate tests key in JSON");
+      }
+      this.#testsState = code === OPEN_BRACKET ? "array" : "invalid";
+      this.#inTests = code === OPEN_BRACKET;
+    }
+    // only the first character of a value counts
+    this.#lastKey = undefined;
+  }
+}
+
+function isWhitespace(code: number) {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
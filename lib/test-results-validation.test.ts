@@ -0,0 +1,72 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { validateRecordedTests } from "./test-results-validation.ts";
+
+Deno.test("keeps valid tests", () => {
+  const tests = [
+    {
+      name: "parent",
+      path: "a.ts",
+      duration: 30,
+      flakyCount: 1,
+      subTests: [{ name: "child", path: "a.ts", ignored: true }],
+    },
+    { name: "failed", path: "b.ts", failed: true },
+  ];
+
+  assertEquals(validateRecordedTests(tests), { tests, warnings: [] });
+});
+
+Deno.test("drops invalid entries with the path of each problem", () => {
+  const result = validateRecordedTests([
+    { name: "valid", path: "a.ts", failed: false },
+    { path: "a.ts", duration: "10" },
+    "not a test",
+    { name: "object sub tests", path: "a.ts", subTests: { name: "child" } },
+    {
+      name: "parent",
+      path: "b.ts",
+      subTests: [
+        { name: "valid child", path: "b.ts" },
+        { name: "bad child", path: "b.ts", flakyCount: -1 },
+      ],
+    },
+  ]);
+
+  assertEquals(result.tests, [
+    { name: "valid", path: "a.ts" },
+    {
+      name: "parent",
+      path: "b.ts",
+      subTests: [{ name: "valid child", path: "b.ts" }],
+    },
+  ]);
+  assertEquals(result.warnings, [
+    { path: "/tests/1/name", message: "must be a string" },
+    { path: "/tests/1/duration", message: "must be a non-negative number" },
+    { path: "/tests/2", message: "must be an object" },
+    { path: "/tests/3/subTests", message: "must be an array" },
+    {
+      path: "/tests/4/subTests/1/flakyCount",
+      message: "must be a non-negative integer",
+    },
+  ]);
+});
+
+Deno.test("limits the number of warnings", () => {
+  const result = validateRecordedTests(new Array(60).fill(null));
+
+  assertEquals(result.tests, []);
+  assertEquals(result.warnings.length, 51);
+  assertEquals(result.warnings[50], {
+    path: "/tests",
+    message: "10 more warnings omitted",
+  });
+});
+
+Deno.test("rejects tests that aren't an array", () => {
+  assertThrows(
+    () => validateRecordedTests({ name: "test" }),
+    Error,
+    "/tests must be an array",
+  );
+});
@@ -0,0 +1,193 @@
+import type {
+  ParseWarning,
+  RecordedTestResult,
+} from "./test-results-downloader.ts";
+
+/** Warnings kept per artifact so a broken one doesn't bloat the results. */
+const MAX_WARNINGS = 50;
+const TESTS_PATH = "/tests";
+const OMITTED_WARNINGS_MESSAGE = /^(\d+) more warnings omitted$/;
+
+/**
+ * Checks the tests of a `test-results-*.json` file at runtime. Entries that
+ * don't match `RecordedTestResult` are dropped and reported as warnings
+ * with the path of the invalid value, while their valid siblings are kept.
+ */
+export function validateRecordedTests(
+  value: unknown,
+): { tests: RecordedTestResult[]; warnings: ParseWarning[] } {
+  if (!Array.isArray(value)) {
+    throw new Error(`${TESTS_PATH} must be an array`);
+  }
+  const validator = new RecordedTestsValidator();
+  for (const entry of value) {
+    validator.add(entry);
+  }
+  return { tests: validator.tests, warnings: validator.warnings };
+}
+
+/**
+ * Limits the warnings of an artifact read from several files, counting
+ * the ones each file already left out.
+ */
+export function limitWarnings(warnings: ParseWarning[]): ParseWarning[] {
+  const kept: ParseWarning[] = [];
+  let omitted = 0;
+  for (const warning of warnings) {
+    const match = warning.path === TESTS_PATH &&
+      OMITTED_WARNINGS_MESSAGE.exec(warning.message);
+    if (match) {
+      omitted += Number(match[1]);
+    } else if (kept.length < MAX_WARNINGS) {
+      kept.push(warning);
+    } else {
+      omitted++;
+    }
+  }
+  return omitted === 0 ? kept : [...kept, createOmittedWarning(omitted)];
+}
+
+/** Validates the entries of the tests array one at a time. */
+export class RecordedTestsValidator {
+  readonly #tests: RecordedTestResult[] = [];
+  readonly #warnings: ParseWarning[] = [];
+  /** Tests share one copy of each file path to keep the results small. */
+  readonly #filePaths = new Map<string, string>();
+  #index = 0;
+  #omittedWarnings = 0;
+
+  get tests(): RecordedTestResult[] {
+    return this.#tests;
+  }
+
+  get warnings(): ParseWarning[] {
+    return this.#omittedWarnings === 0 ? this.#warnings : [
+      ...this.#warnings,
+      createOmittedWarning(this.#omittedWarnings),
+    ];
+  }
+
+  add(value: unknown): void {
+    const warnings: ParseWarning[] = [];
+    const test = validateTest(
+      value,
+      `${TESTS_PATH}/${this.#index++}`,
+      warnings,
+      this.#filePaths,
+    );
+    if (test != null) {
+      this.#tests.push(test);
+    }
+    const remaining = MAX_WARNINGS - this.#warnings.length;
+    this.#warnings.push(...warnings.slice(0, remaining));
+    this.#omittedWarnings += Math.max(0, warnings.length - remaining);
+  }
+}
+
+function createOmittedWarning(count: number): ParseWarning {
+  return { path: TESTS_PATH, message: `${count} more warnings omitted` };
+}
+
+function validateTests(
+  values: unknown[],
+  path: string,
+  warnings: ParseWarning[],
+  filePaths: Map<string, string>,
+): RecordedTestResult[] {
+  const tests: RecordedTestResult[] = [];
+  values.forEach((value, index) => {
+    const test = validateTest(value, `${path}/${index}`, warnings, filePaths);
+    if (test != null) {
+      tests.push(test);
+    }
+  });
+  return tests;
+}
+
+function validateTest(
+  value: unknown,
+  path: string,
+  warnings: ParseWarning[],
+  filePaths: Map<string, string>,
+): RecordedTestResult | undefined {
+  if (typeof value !== "object" || value == null || Array.isArray(value)) {
+    warnings.push({ path, message: "must be an object" });
+    return undefined;
+  }
+  const entry = value as Record<string, unknown>;
+  const errors: ParseWarning[] = [];
+  const check = (key: string, valid: boolean, expected: string) => {
+    if (!valid) {
+      errors.push({ path: `${path}/${key}`, message: `must be ${expected}` });
+    }
+  };
+  check("name", typeof entry.name === "string", "a string");
+  check("path", typeof entry.path === "string", "a string");
+  check(
+    "duration",
+    entry.duration == null ||
+      (typeof entry.duration === "number" && Number.isFinite(entry.duration) &&
+        entry.duration >= 0),
+    "a non-negative number",
+  );
+  check(
+    "failed",
+    entry.failed == null || typeof entry.failed === "boolean",
+    "a boolean",
+  );
+  check(
+    "ignored",
+    entry.ignored == null || typeof entry.ignored === "boolean",
+    "a boolean",
+  );
+  check(
+    "flakyCount",
+    entry.flakyCount == null ||
+      (Number.isInteger(entry.flakyCount) && (entry.flakyCount as number) >= 0),
+    "a non-negative integer",
+  );
+  check(
+    "subTests",
+    entry.subTests == null || Array.isArray(entry.subTests),
+    "an array",
+  );
+  if (errors.length > 0) {
+    warnings.push(...errors);
+    return undefined;
+  }
+
+  const test: RecordedTestResult = {
+    name: entry.name as string,
+    path: intern(filePaths, entry.path as string),
+  };
+  if (entry.duration != null) {
+    test.duration = entry.duration as number;
+  }
+  if (entry.failed === true) {
+    test.failed = true;
+  }
+  if (entry.ignored === true) {
+    test.ignored = true;
+  }
+  if (entry.flakyCount != null) {
+    test.flakyCount = entry.flakyCount as number;
+  }
+  if (entry.subTests != null) {
+    test.subTests = validateTests(
+      entry.subTests as unknown[],
+      `${path}/subTests`,
+      warnings,
+      filePaths,
+    );
+  }
+  return test;
+}
+
+function intern(values: Map<string, string>, value: string) {
+  const existing = values.get(value);
+  if (existing != null) {
+    return existing;
+  }
+  values.set(value, value);
+  return value;
+}
@@ -0,0 +1,32 @@
+import type { WorkflowRun } from "./github-api-client.ts";
+
+/** Creates a completed main branch run for tests. */
+export function createWorkflowRun(
+  overrides: Partial<WorkflowRun> = {},
+): WorkflowRun {
+  const id = overrides.id ?? 1;
+  return {
+    id,
+    name: "ci",
+    display_title: `Run ${id}`,
+    status: "completed",
+    conclusion: "success",
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+    run_number: id,
+    event: "push",
+    head_branch: "main",
+    head_sha: `sha${id}`,
+    run_attempt: 1,
+    run_started_at: "2025-01-01T00:00:00Z",
+    pull_requests: [],
+    actor: {
+      login: "octocat",
+      html_url: "https://github.com/octocat",
+      avatar_url: "https://avatars.githubusercontent.com/u/1",
+    },
+    head_commit: null,
+    head_repository: null,
+    ...overrides,
+  };
+}
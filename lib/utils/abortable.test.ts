@@ -0,0 +1,30 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { abortable } from "./abortable.ts";
+
+Deno.test("should resolve with the promise", async () => {
+  const controller = new AbortController();
+  assertEquals(await abortable(Promise.resolve(1), controller.signal), 1);
+});
+
+Deno.test("should reject when signal aborts without affecting the promise", async () => {
+  const controller = new AbortController();
+  const { promise, resolve } = Promise.withResolvers<number>();
+  const waiting = abortable(promise, controller.signal);
+  controller.abort(new Error("Aborted"));
+
+  await assertRejects(() => waiting, Error, "Aborted");
+  resolve(1);
+  assertEquals(await abortable(promise), 1);
+});
+
+Deno.test("should reject when signal already aborted", async () => {
+  await assertRejects(
+    () =>
+      abortable(
+        Promise.resolve(1),
+        AbortSignal.abort(new Error("Already aborted")),
+      ),
+    Error,
+    "Already aborted",
+  );
+});
@@ -0,0 +1,25 @@
+/**
+ * Resolves with the promise or rejects once the signal aborts, which stops
+ * waiting on work that is shared with others without cancelling it.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (signal == null) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    function onAbort() {
+      reject(signal!.reason);
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
@@ -0,0 +1,24 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { delay } from "./delay.ts";
+
+Deno.test("should resolve after delay", async () => {
+  const start = Date.now();
+  await delay(20);
+  assertEquals(Date.now() - start >= 15, true);
+});
+
+Deno.test("should reject when signal aborts", async () => {
+  const controller = new AbortController();
+  const promise = delay(10_000, controller.signal);
+  controller.abort(new Error("Aborted"));
+
+  await assertRejects(() => promise, Error, "Aborted");
+});
+
+Deno.test("should reject when signal already aborted", async () => {
+  await assertRejects(
+    () => delay(10_000, AbortSignal.abort(new Error("Already aborted"))),
+    Error,
+    "Already aborted",
+  );
+});
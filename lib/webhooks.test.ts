@@ -0,0 +1,70 @@
+import { assertEquals } from "@std/assert";
+import {
+  hasBearerToken,
+  parseWorkflowRunEvent,
+  signWebhookBody,
+  verifyWebhookSignature,
+  WebhookDeliveryLog,
+} from "./webhooks.ts";
+import payload from "./testdata/workflow_run_completed.json" with {
+  type: "json",
+};
+
+// example from GitHub's webhook documentation
+const SECRET = "It's a Secret to Everybody";
+const BODY = new TextEncoder().encode("Hello, World!");
+const SIGNATURE =
+  "sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17";
+
+Deno.test("verifies webhook signatures", async () => {
+  assertEquals(await signWebhookBody(SECRET, BODY), SIGNATURE);
+  assertEquals(await verifyWebhookSignature(SECRET, BODY, SIGNATURE), true);
+  assertEquals(await verifyWebhookSignature("other", BODY, SIGNATURE), false);
+  assertEquals(
+    await verifyWebhookSignature(
+      SECRET,
+      new TextEncoder().encode("Hello, World?"),
+      SIGNATURE,
+    ),
+    false,
+  );
+  assertEquals(await verifyWebhookSignature(SECRET, BODY, null), false);
+  assertEquals(await verifyWebhookSignature(SECRET, BODY, "sha256=00"), false);
+});
+
+Deno.test("keeps the most recent deliveries", () => {
+  const log = new WebhookDeliveryLog(2);
+  log.add({ id: "1", event: "ping", status: "ignored", detail: "" });
+  log.add({ id: "2", event: "ping", status: "rejected", detail: "" });
+  log.add({ id: "3", event: "ping", status: "ignored", detail: "" });
+
+  assertEquals(log.entries.map((entry) => entry.id), ["3", "2"]);
+});
+
+Deno.test("parses workflow run events", () => {
+  assertEquals(parseWorkflowRunEvent(payload), payload);
+  assertEquals(parseWorkflowRunEvent(null), undefined);
+  assertEquals(parseWorkflowRunEvent({ action: "completed" }), undefined);
+  assertEquals(
+    parseWorkflowRunEvent({
+      ...payload,
+      repository: { ...payload.repository, owner: null },
+    }),
+    undefined,
+  );
+  assertEquals(
+    parseWorkflowRunEvent({
+      ...payload,
+      workflow_run: { ...payload.workflow_run, run_attempt: "1" },
+    }),
+    undefined,
+  );
+});
+
+Deno.test("checks bearer tokens", () => {
+  assertEquals(hasBearerToken("Bearer secret", "secret"), true);
+  assertEquals(hasBearerToken("Bearer secret2", "secret"), false);
+  assertEquals(hasBearerToken("Bearer secre", "secret"), false);
+  assertEquals(hasBearerToken("secret", "secret"), false);
+  assertEquals(hasBearerToken(null, "secret"), false);
+});
@@ -0,0 +1,150 @@
+/** Subset of a `workflow_run` webhook payload. */
+export interface WorkflowRunEvent {
+  action: string;
+  workflow_run: {
+    id: number;
+    name: string;
+    /** Path of the workflow file (ex. `.github/workflows/ci.yml`). */
+    path: string;
+    workflow_id: number;
+    run_attempt: number;
+    status: string;
+    conclusion: string | null;
+  };
+  repository: {
+    name: string;
+    owner: { login: string };
+  };
+}
+
+/**
+ * Checks the fields of a `workflow_run` payload that are used, returning
+ * undefined when any is missing or has the wrong type.
+ */
+export function parseWorkflowRunEvent(
+  value: unknown,
+): WorkflowRunEvent | undefined {
+  if (!isObject(value) || typeof value.action !== "string") {
+    return undefined;
+  }
+  const run = value.workflow_run;
+  const repository = value.repository;
+  if (
+    !isObject(run) || typeof run.id !== "number" ||
+    typeof run.name !== "string" || typeof run.path !== "string" ||
+    typeof run.workflow_id !== "number" ||
+    typeof run.run_attempt !== "number" || typeof run.status !== "string" ||
+    (run.conclusion !== null && typeof run.conclusion !== "string")
+  ) {
+    return undefined;
+  }
+  if (
+    !isObject(repository) || typeof repository.name !== "string" ||
+    !isObject(repository.owner) || typeof repository.owner.login !== "string"
+  ) {
+    return undefined;
+  }
+  return value as unknown as WorkflowRunEvent;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Checks the `X-Hub-Signature-256` header GitHub sends with the HMAC
+ * of the body using the webhook secret.
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: Uint8Array<ArrayBuffer>,
+  signatureHeader: string | null,
+): Promise<boolean> {
+  const hex = signatureHeader?.match(/^sha256=([0-9a-f]{64})$/i)?.[1];
+  if (hex == null) {
+    return false;
+  }
+  const signature = Uint8Array.from(
+    hex.match(/../g)!,
+    (byte) => parseInt(byte, 16),
+  );
+  const key = await importWebhookKey(secret, ["verify"]);
+  // verify compares in constant time
+  return await crypto.subtle.verify("HMAC", key, signature, body);
+}
+
+/** Creates the `X-Hub-Signature-256` header value for a body. */
+export async function signWebhookBody(
+  secret: string,
+  body: Uint8Array<ArrayBuffer>,
+): Promise<string> {
+  const key = await importWebhookKey(secret, ["sign"]);
+  const signature = new Uint8Array(
+    await crypto.subtle.sign("HMAC", key, body),
+  );
+  return `sha256=${
+    Array.from(signature, (byte) => byte.toString(16).padStart(2, "0"))
+      .join("")
+  }`;
+}
+
+/** Checks an `Authorization: Bearer` header in constant time. */
+export function hasBearerToken(
+  authorizationHeader: string | null,
+  token: string,
+): boolean {
+  const actual = new TextEncoder().encode(
+    authorizationHeader?.match(/^Bearer (.+)$/)?.[1] ?? "",
+  );
+  const expected = new TextEncoder().encode(token);
+  let difference = actual.length ^ expected.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= (actual[i] ?? 0) ^ expected[i];
+  }
+  return difference === 0;
+}
+
+function importWebhookKey(secret: string, usages: KeyUsage[]) {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    usages,
+  );
+}
+
+export interface WebhookDelivery {
+  /** Value of the `X-GitHub-Delivery` header. */
+  id: string;
+  event: string;
+  receivedAt: Date;
+  status:
+    | "rejected"
+    | "ignored"
+    | "duplicate"
+    | "queued"
+    | "completed"
+    | "failed";
+  detail: string;
+}
+
+/** Recently received webhook deliveries, newest first. */
+export class WebhookDeliveryLog {
+  readonly #maxEntries: number;
+  #entries: WebhookDelivery[] = [];
+
+  constructor(maxEntries = 100) {
+    this.#maxEntries = maxEntries;
+  }
+
+  get entries(): readonly WebhookDelivery[] {
+    return this.#entries;
+  }
+
+  add(delivery: Omit<WebhookDelivery, "receivedAt">): WebhookDelivery {
+    const entry = { ...delivery, receivedAt: new Date() };
+    this.#entries = [entry, ...this.#entries].slice(0, this.#maxEntries);
+    return entry;
+  }
+}
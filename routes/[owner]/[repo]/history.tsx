@@ -0,0 +1,159 @@
+import { define } from "@/define.ts";
+import type { Repository } from "@/lib/config.ts";
+import type { HistoryDatabase } from "@/lib/history-database.ts";
+import { formatDate, formatDuration } from "@/lib/render.tsx";
+
+export const handler = define.handlers({
+  GET(ctx) {
+    const path = ctx.url.searchParams.get("path");
+    const name = ctx.url.searchParams.get("name");
+    return ctx.state.store.get("controller.testHistory").get(path, name);
+  },
+});
+
+export class TestHistoryController {
+  #db: HistoryDatabase | undefined;
+  #repository: Repository;
+
+  constructor(db: HistoryDatabase | undefined, repository: Repository) {
+    this.#db = db;
+    this.#repository = repository;
+  }
+
+  get(path: string | null, name: string | null) {
+    if (this.#db == null) {
+      return new Response("History database not configured", { status: 404 });
+    }
+    if (path == null || name == null) {
+      return new Response("Missing test path or name", { status: 400 });
+    }
+
+    const entries = this.#db.getTestHistory(this.#repository, { path, name });
+    const durations = entries.flatMap((entry) =>
+      entry.duration != null && !entry.failed && !entry.ignored
+        ? [entry.duration]
+        : []
+    );
+    return {
+      data: {
+        path,
+        name,
+        entries,
+        failureCount: entries.filter((entry) => entry.failed).length,
+        flakyCount: entries.reduce((sum, entry) => sum + entry.flakyCount, 0),
+        avgDuration: durations.length === 0
+          ? undefined
+          : durations.reduce((sum, value) => sum + value, 0) /
+            durations.length,
+      },
+    };
+  }
+}
+
+export default define.page<typeof handler>(
+  function TestHistoryPage({ data, params }) {
+    const { path, name, entries, failureCount, flakyCount, avgDuration } = data;
+    const basePath = `/${params.owner}/${params.repo}`;
+
+    return (
+      <div class="container mx-auto px-4 py-8 max-w-7xl">
+        <div class="mb-8">
+          <h1 class="text-3xl font-bold mb-2 font-mono break-all">{name}</h1>
+          <p class="text-gray-600 mb-2">{path}</p>
+          <div class="flex items-center gap-4 text-sm text-gray-600">
+            <span>
+              Runs: <span class="font-semibold">{entries.length}</span>
+            </span>
+            <span>
+              Failures: <span class="font-semibold">{failureCount}</span>
+            </span>
+            <span>
+              Flakes: <span class="font-semibold">{flakyCount}</span>
+            </span>
+            {avgDuration != null && (
+              <span>
+                Avg passing duration:{" "}
+                <span class="font-semibold">
+                  {formatDuration(avgDuration)}
+                </span>
+              </span>
+            )}
+          </div>
+          <a
+            href={`${basePath}/insights`}
+            class="text-blue-600 hover:text-blue-800 text-sm mt-2 inline-block"
+          >
+            ← Back to insights
+          </a>
+        </div>
+
+        <div class="bg-white rounded-lg shadow">
+          {entries.length === 0
+            ? (
+              <div class="p-8 text-center text-gray-600">
+                This test has not been recorded in any ingested run.
+              </div>
+            )
+            : (
+              <div class="divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <div
+                    key={`${entry.runId}-${entry.jobName}`}
+                    class="px-4 py-3 flex items-center justify-between gap-4 text-sm"
+                  >
+                    <div class="flex-1 min-w-0">
+                      <a
+                        href={`${basePath}/results/${entry.runId}`}
+                        class="text-blue-600 hover:text-blue-800 font-semibold"
+                      >
+                        #{entry.runId}
+                      </a>{" "}
+                      <span class="font-mono text-gray-700">
+                        {entry.jobName}
+                      </span>
+                      <div class="text-xs text-gray-500">
+                        {formatDate(entry.runCreatedAt)} · {entry.headBranch} ·
+                        {" "}
+                        <span class="font-mono">
+                          {entry.headSha.slice(0, 7)}
+                        </span>
+                      </div>
+                    </div>
+                    <div class="flex items-center gap-3 flex-shrink-0">
+                      {entry.flakyCount > 0 && (
+                        <span class="bg-yellow-100 text-yellow-800 px-2 py-1 rounded text-xs font-semibold">
+                          {entry.flakyCount} flaky
+                        </span>
+                      )}
+                      {entry.duration != null && (
+                        <span class="text-gray-600">
+                          {formatDuration(entry.duration)}
+                        </span>
+                      )}
+                      {entry.ignored
+                        ? (
+                          <span class="bg-gray-100 text-gray-800 px-2 py-1 rounded text-xs font-semibold">
+                            Ignored
+                          </span>
+                        )
+                        : entry.failed
+                        ? (
+                          <span class="bg-red-100 text-red-800 px-2 py-1 rounded text-xs font-semibold">
+                            Failed
+                          </span>
+                        )
+                        : (
+                          <span class="bg-green-100 text-green-800 px-2 py-1 rounded text-xs font-semibold">
+                            Passed
+                          </span>
+                        )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+        </div>
+      </div>
+    );
+  },
+);
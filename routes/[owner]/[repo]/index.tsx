@@ -0,0 +1,341 @@
+import { Head } from "fresh/runtime";
+import { define } from "@/define.ts";
+import type { RunsFetcher } from "@/lib/runs-fetcher.ts";
+import { type Repository, repositoryPath } from "@/lib/config.ts";
+import {
+  formatDate,
+  getStatusBadge,
+  getWorkflowSearch,
+  RunAssociations,
+  WorkflowSelector,
+} from "@/lib/render.tsx";
+import {
+  parseRunFilters,
+  RUN_EVENTS,
+  RUN_STATUSES,
+  type RunFilters,
+  runFiltersToSearchParams,
+  toWorkflowRunFilters,
+} from "@/lib/run-filters.ts";
+
+export const handler = define.handlers({
+  GET(ctx) {
+    const url = new URL(ctx.url);
+    const pageNumber = parseInt(url.searchParams.get("page") ?? "1", 10);
+    const workflow = ctx.state.store.get("config")
+      .findWorkflow(url.searchParams.get("workflow"));
+    if (workflow == null) {
+      return new Response("Workflow not configured", { status: 404 });
+    }
+    return ctx.state.store.get("controller.homePage")
+      .getAtPage(pageNumber, workflow, parseRunFilters(url.searchParams));
+  },
+});
+
+export class HomePageController {
+  #runsFetcher: RunsFetcher;
+  #repositories: readonly Repository[];
+  #workflows: readonly string[];
+
+  constructor(
+    runsFetcher: RunsFetcher,
+    repositories: readonly Repository[],
+    workflows: readonly string[],
+  ) {
+    this.#runsFetcher = runsFetcher;
+    this.#repositories = repositories;
+    this.#workflows = workflows;
+  }
+
+  async getAtPage(page: number, workflow: string, filters: RunFilters = {}) {
+    const perPage = 30;
+    const result = await this.#runsFetcher.fetchRecentRuns(
+      workflow,
+      perPage,
+      page,
+      toWorkflowRunFilters(filters),
+    );
+
+    return {
+      data: {
+        runs: result.runs,
+        totalCount: result.totalCount,
+        currentPage: page,
+        perPage,
+        totalPages: Math.ceil(result.totalCount / perPage),
+        repositories: this.#repositories,
+        workflow,
+        workflows: this.#workflows,
+        filters,
+      },
+    };
+  }
+}
+
+export default define.page<typeof handler>(function Home({ data, params }) {
+  const {
+    runs,
+    currentPage,
+    totalPages,
+    totalCount,
+    repositories,
+    workflow,
+    workflows,
+    filters,
+  } = data;
+  const basePath = `/${params.owner}/${params.repo}`;
+  const filterParams = runFiltersToSearchParams(filters);
+  const pageHref = (page: number) =>
+    basePath +
+    getWorkflowSearch(workflows, workflow, {
+      ...filterParams,
+      page: `${page}`,
+    });
+  const repoUrl = `https://github.com/${params.owner}/${params.repo}`;
+
+  return (
+    <div class="px-4 py-8 mx-auto min-h-screen bg-gray-50">
+      <Head>
+        <title>Deno CI Test Viewer</title>
+      </Head>
+      <div class="max-w-6xl mx-auto">
+        <div class="mb-8">
+          <h1 class="text-4xl font-bold mb-2">Deno CI Test Viewer</h1>
+          <p class="text-gray-600">
+            View test results from recent CI runs in{" "}
+            <a
+              href={repoUrl}
+              class="font-semibold text-blue-600 hover:text-blue-800"
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              {params.owner}/{params.repo}
+            </a>
+          </p>
+          {repositories.length > 1 && (
+            <div class="mt-2 flex flex-wrap gap-2 text-sm">
+              {repositories.map((repo) => (
+                <a
+                  key={repositoryPath(repo)}
+                  href={repositoryPath(repo)}
+                  class="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"
+                >
+                  {repo.owner}/{repo.name}
+                </a>
+              ))}
+            </div>
+          )}
+          <WorkflowSelector
+            workflows={workflows}
+            current={workflow}
+            getHref={(workflow) =>
+              basePath + getWorkflowSearch(workflows, workflow, filterParams)}
+          />
+          <div class="mt-4">
+            <a
+              href={`${basePath}/insights${
+                getWorkflowSearch(workflows, workflow)
+              }`}
+              class="inline-flex items-center px-4 py-2 bg-yellow-500 text-white rounded hover:bg-yellow-600 transition-colors text-sm font-semibold"
+            >
+              📊 View Test Insights (Main Branch)
+            </a>
+          </div>
+        </div>
+
+        <div class="bg-white rounded-lg shadow">
+          <RunFiltersForm
+            action={basePath}
+            workflow={workflow === workflows[0] ? undefined : workflow}
+            filters={filters}
+          />
+          <div class="px-6 py-4 border-b border-gray-200">
+            <div class="flex items-center justify-between">
+              <h2 class="text-xl font-semibold">Recent Workflow Runs</h2>
+              <div class="text-sm text-gray-600">
+                Total: {totalCount} runs
+              </div>
+            </div>
+          </div>
+          <div class="divide-y divide-gray-200">
+            {runs.length === 0
+              ? (
+                <div class="px-6 py-8 text-center text-gray-500">
+                  {Object.keys(filters).length > 0
+                    ? "No runs match the filters"
+                    : "No runs found"}
+                </div>
+              )
+              : (
+                runs.map((run) => (
+                  <div class="relative px-6 py-4 hover:bg-gray-50 transition-colors">
+                    <div class="flex items-start justify-between gap-4">
+                      <div class="flex-1 min-w-0">
+                        <div class="flex items-center gap-2 mb-1">
+                          {getStatusBadge(run.status, run.conclusion)}
+                          {/* stretch the link over the whole row */}
+                          <a
+                            href={`${basePath}/results/${run.id}`}
+                            class="font-semibold text-gray-900 after:absolute after:inset-0"
+                          >
+                            {run.display_title}
+                          </a>
+                        </div>
+                        <div class="text-sm text-gray-600 mb-1">
+                          {run.name} #{run.run_number}
+                        </div>
+                        <div class="text-xs text-gray-500 mb-1">
+                          {run.head_branch} • {run.event}
+                        </div>
+                        <RunAssociations run={run} repoUrl={repoUrl} />
+                      </div>
+                      <div class="text-right flex-shrink-0">
+                        <div class="text-sm text-gray-900 font-mono">
+                          Run #{run.id}
+                        </div>
+                        <div class="text-xs text-gray-500 mt-1">
+                          {formatDate(run.created_at)}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                ))
+              )}
+          </div>
+          {totalPages > 1 && (
+            <div class="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+              <div class="text-sm text-gray-600">
+                Page {currentPage} of {totalPages}
+              </div>
+              <div class="flex gap-2">
+                {currentPage > 1 && (
+                  <a
+                    href={pageHref(currentPage - 1)}
+                    class="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+                  >
+                    Previous
+                  </a>
+                )}
+                {currentPage < totalPages && (
+                  <a
+                    href={pageHref(currentPage + 1)}
+                    class="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+                  >
+                    Next
+                  </a>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+function RunFiltersForm(
+  { action, workflow, filters }: {
+    action: string;
+    workflow: string | undefined;
+    filters: RunFilters;
+  },
+) {
+  const inputClass = "border border-gray-300 rounded px-2 py-1 text-sm";
+  const hasFilters = Object.keys(filters).length > 0;
+
+  return (
+    <form
+      method="get"
+      action={action}
+      class="px-6 py-4 border-b border-gray-200 flex flex-wrap items-end gap-3"
+    >
+      {workflow != null && (
+        <input type="hidden" name="workflow" value={workflow} />
+      )}
+      <label class="flex flex-col text-xs text-gray-600 gap-1">
+        Branch
+        <input
+          type="text"
+          name="branch"
+          value={filters.branch}
+          placeholder="main"
+          class={inputClass}
+        />
+      </label>
+      <label class="flex flex-col text-xs text-gray-600 gap-1">
+        Event
+        <select name="event" class={inputClass}>
+          <option value="">Any</option>
+          {RUN_EVENTS.map((event) => (
+            <option
+              key={event}
+              value={event}
+              selected={filters.event === event}
+            >
+              {event}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label class="flex flex-col text-xs text-gray-600 gap-1">
+        Status
+        <select name="status" class={inputClass}>
+          <option value="">Any</option>
+          {RUN_STATUSES.map((status) => (
+            <option
+              key={status}
+              value={status}
+              selected={filters.status === status}
+            >
+              {status}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label class="flex flex-col text-xs text-gray-600 gap-1">
+        Actor
+        <input
+          type="text"
+          name="actor"
+          value={filters.actor}
+          placeholder="username"
+          class={inputClass}
+        />
+      </label>
+      <label class="flex flex-col text-xs text-gray-600 gap-1">
+        Created from
+        <input
+          type="date"
+          name="created_from"
+          value={filters.createdFrom}
+          class={inputClass}
+        />
+      </label>
+      <label class="flex flex-col text-xs text-gray-600 gap-1">
+        Created to
+        <input
+          type="date"
+          name="created_to"
+          value={filters.createdTo}
+          class={inputClass}
+        />
+      </label>
+      <button
+        type="submit"
+        class="px-4 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors text-sm"
+      >
+        Filter
+      </button>
+      {hasFilters && (
+        <a
+          href={workflow == null
+            ? action
+            : `${action}?workflow=${encodeURIComponent(workflow)}`}
+          class="text-sm text-blue-600 hover:text-blue-800 py-1"
+        >
+          Clear
+        </a>
+      )}
+    </form>
+  );
+}
@@ -1,15 +1,22 @@
 import { assertEquals } from "@std/assert";
-import { InsightsPageController } from "./insights.tsx";
+import { type InsightsData, InsightsPageController } from "./insights.tsx";
 import type {
   GitHubApiClient,
   WorkflowJob,
   WorkflowRun,
+  WorkflowRunFilters,
 } from "@/lib/github-api-client.ts";
 import type {
+  ArtifactResult,
   JobTestResults,
+  RunTestResults,
   TestResultsDownloader,
 } from "@/lib/test-results-downloader.ts";
+import { InsightsCache } from "@/lib/insights-cache.ts";
 import { NullLogger } from "@/lib/logger.ts";
+import { createWorkflowRun } from "@/lib/testing.ts";
+
+const repository = { owner: "denoland", name: "deno" };
 
 interface RunsWithCount {
   totalCount: number;
@@ -20,6 +27,7 @@ class MockGitHubApiClient
   implements Pick<GitHubApiClient, "listWorkflowRuns" | "listJobs"> {
   #runs: RunsWithCount = { totalCount: 0, runs: [] };
   #jobs: Map<number, WorkflowJob[]> = new Map();
+  requestedWorkflows: string[] = [];
 
   mockRuns(runs: RunsWithCount) {
     this.#runs = runs;
@@ -30,13 +38,15 @@ class MockGitHubApiClient
   }
 
   listWorkflowRuns(
+    workflow: string,
     _perPage?: number,
     page?: number,
-    branch?: string,
+    filters?: WorkflowRunFilters,
   ) {
+    this.requestedWorkflows.push(workflow);
     let runs = this.#runs.runs;
-    if (branch) {
-      runs = runs.filter((r) => r.head_branch === branch);
+    if (filters?.branch) {
+      runs = runs.filter((r) => r.head_branch === filters.branch);
     }
     // simulate pagination - page 2+ returns empty
     if (page && page > 1) {
@@ -50,19 +60,28 @@ class MockGitHubApiClient
   }
 }
 
-class MockTestResultsDownloader implements TestResultsDownloader {
+class MockTestResultsDownloader
+  implements Pick<TestResultsDownloader, "downloadForRunId"> {
   #results: Map<number, JobTestResults[]> = new Map();
+  #artifacts: Map<number, ArtifactResult[]> = new Map();
 
   mockResults(runId: number, results: JobTestResults[]) {
     this.#results.set(runId, results);
   }
 
-  downloadForRunId(runId: number): Promise<JobTestResults[]> {
+  mockArtifacts(runId: number, artifacts: ArtifactResult[]) {
+    this.#artifacts.set(runId, artifacts);
+  }
+
+  downloadForRunId(runId: number): Promise<RunTestResults> {
     const results = this.#results.get(runId);
     if (!results) {
       return Promise.reject(new Error(`No results for run ${runId}`));
     }
-    return Promise.resolve(results);
+    return Promise.resolve({
+      results,
+      artifacts: this.#artifacts.get(runId) ?? [],
+    });
   }
 }
 
@@ -72,28 +91,24 @@ function createMockRun(
   status: string,
   branch: string,
 ): WorkflowRun {
-  return {
+  const now = new Date().toISOString();
+  return createWorkflowRun({
     id,
     name,
-    display_title: `Run ${id}`,
     status,
-    conclusion: "success",
-    created_at: new Date().toISOString(),
-    updated_at: new Date().toISOString(),
-    run_number: id,
-    event: "push",
     head_branch: branch,
-    head_sha: `sha${id}`,
-  };
+    created_at: now,
+    updated_at: now,
+    run_started_at: now,
+  });
 }
 
-Deno.test("filters main branch completed CI runs", async () => {
+Deno.test("filters main branch completed runs", async () => {
   const mockGithub = new MockGitHubApiClient();
   const mockDownloader = new MockTestResultsDownloader();
 
   const runs = [
     createMockRun(1, "CI", "completed", "main"),
-    createMockRun(2, "Build", "completed", "main"), // Wrong name
     createMockRun(3, "CI", "in_progress", "main"), // Not completed
     createMockRun(4, "CI", "completed", "feature"), // Wrong branch
     createMockRun(5, "CI", "completed", "main"),
@@ -109,12 +124,16 @@ Deno.test("filters main branch completed CI runs", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   assertEquals(result.data.totalRunsAnalyzed, 2);
   assertEquals(result.data.newestRun?.id, 1);
   assertEquals(result.data.oldestRun?.id, 5);
+  assertEquals(mockGithub.requestedWorkflows, ["ci.yml", "ci.yml"]);
 });
 
 Deno.test("limits to 20 main branch runs", async () => {
@@ -139,8 +158,11 @@ Deno.test("limits to 20 main branch runs", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   assertEquals(result.data.totalRunsAnalyzed, 20);
 });
@@ -190,8 +212,11 @@ Deno.test("tracks flaky tests", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   assertEquals(result.data.flakyTests.length, 1);
   assertEquals(result.data.flakyTests[0].name, "test1");
@@ -260,8 +285,11 @@ Deno.test("tracks job counts for flaky tests", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   assertEquals(result.data.flakyTests.length, 1);
   assertEquals(result.data.flakyTests[0].name, "test1");
@@ -321,8 +349,11 @@ Deno.test("tracks failed tests", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   assertEquals(result.data.failedTests.length, 1);
   assertEquals(result.data.failedTests[0].name, "failing-test");
@@ -363,8 +394,11 @@ Deno.test("processes nested subtests", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   assertEquals(result.data.failedTests.length, 1);
   assertEquals(result.data.failedTests[0].name, "child-test");
@@ -409,8 +443,11 @@ Deno.test("sorts flaky tests by total count", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   assertEquals(result.data.flakyTests.length, 3);
   assertEquals(result.data.flakyTests[0].name, "test2");
@@ -482,8 +519,11 @@ Deno.test("sorts failed tests by failure count", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   assertEquals(result.data.failedTests.length, 2);
   assertEquals(result.data.failedTests[0].name, "test2");
@@ -510,8 +550,11 @@ Deno.test("handles download errors gracefully", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   // Should still return results even though one download failed
   assertEquals(result.data.totalRunsAnalyzed, 2);
@@ -544,8 +587,11 @@ Deno.test("returns empty lists when no issues found", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   assertEquals(result.data.flakyTests.length, 0);
   assertEquals(result.data.failedTests.length, 0);
@@ -636,8 +682,11 @@ Deno.test("tracks flaky job counts", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   // Verify flakyJobs is returned and sorted by count descending
   assertEquals(result.data.flakyJobs.length, 3);
@@ -717,8 +766,11 @@ Deno.test("tracks job performance metrics", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   // Verify jobPerformance is returned and sorted by average duration descending
   assertEquals(result.data.jobPerformance.length, 2);
@@ -834,8 +886,11 @@ Deno.test("tracks step performance metrics", async () => {
     new NullLogger(),
     mockGithub,
     mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
   );
-  const result = await controller.get();
+  const result = await controller.get("ci.yml");
 
   // Verify stepPerformance is returned and sorted by average duration descending
   assertEquals(result.data.stepPerformance.length, 3);
@@ -861,3 +916,89 @@ Deno.test("tracks step performance metrics", async () => {
   assertEquals(result.data.stepPerformance[2].maxDuration, 30);
   assertEquals(result.data.stepPerformance[2].count, 2);
 });
+
+Deno.test("lists artifacts that failed to be read", async () => {
+  const mockGithub = new MockGitHubApiClient();
+  const mockDownloader = new MockTestResultsDownloader();
+
+  mockGithub.mockRuns({
+    totalCount: 1,
+    runs: [createMockRun(1, "CI", "completed", "main")],
+  });
+  mockGithub.mockJobs(1, []);
+  mockDownloader.mockResults(1, [{
+    name: "linux",
+    tests: [{ name: "failing-test", path: "file1.test.ts", failed: true }],
+  }]);
+  mockDownloader.mockArtifacts(1, [
+    {
+      artifactName: "test-results-linux.json",
+      resultsName: "linux",
+      status: "downloaded",
+      expiresAt: "2025-01-31T00:00:00Z",
+    },
+    {
+      artifactName: "test-results-macos.json",
+      resultsName: "macos",
+      status: "failed",
+      expiresAt: "2025-01-31T00:00:00Z",
+      error: { name: "Error", message: "No JSON file found" },
+    },
+  ]);
+
+  const controller = new InsightsPageController(
+    new NullLogger(),
+    mockGithub,
+    mockDownloader,
+    ["ci.yml"],
+    repository,
+    undefined,
+  );
+  const result = await controller.get("ci.yml");
+
+  assertEquals(result.data.failedTests.length, 1);
+  assertEquals(result.data.failedArtifacts, [{
+    runId: 1,
+    artifactName: "test-results-macos.json",
+    error: { name: "Error", message: "No JSON file found" },
+  }]);
+});
+
+Deno.test("serves precomputed insights until a new run completes", async () => {
+  const mockGithub = new MockGitHubApiClient();
+  const mockDownloader = new MockTestResultsDownloader();
+  mockGithub.mockRuns({
+    totalCount: 1,
+    runs: [createMockRun(1, "CI", "completed", "main")],
+  });
+  mockGithub.mockJobs(1, []);
+  mockDownloader.mockResults(1, []);
+
+  const controller = new InsightsPageController(
+    new NullLogger(),
+    mockGithub,
+    mockDownloader,
+    ["ci.yml"],
+    repository,
+    new InsightsCache<InsightsData>(),
+  );
+  assertEquals(await controller.refresh("ci.yml"), true);
+  assertEquals(await controller.refresh("ci.yml"), false);
+
+  const requestCount = mockGithub.requestedWorkflows.length;
+  const result = await controller.get("ci.yml");
+  assertEquals(result.data.totalRunsAnalyzed, 1);
+  assertEquals(mockGithub.requestedWorkflows.length, requestCount);
+
+  mockGithub.mockRuns({
+    totalCount: 2,
+    runs: [
+      createMockRun(2, "CI", "completed", "main"),
+      createMockRun(1, "CI", "completed", "main"),
+    ],
+  });
+  mockGithub.mockJobs(2, []);
+  mockDownloader.mockResults(2, []);
+  assertEquals(await controller.refresh("ci.yml"), true);
+  assertEquals((await controller.get("ci.yml")).data.totalRunsAnalyzed, 2);
+});
@@ -1,7 +1,14 @@
 import { assertEquals } from "@std/assert";
-import { processStepPerformance, processTestResults } from "./[runId].tsx";
+import {
+  findJobForResults,
+  findJobsWithoutResults,
+  getResultJobs,
+  processStepPerformance,
+  processTestResults,
+} from "./[runId].tsx";
 import type { JobTestResults } from "@/lib/test-results-downloader.ts";
 import type { WorkflowJob } from "@/lib/github-api-client.ts";
+import { parseResultsPlatform } from "@/lib/platform.ts";
 
 Deno.test("processTestResults - calculates basic stats correctly", () => {
   const results: JobTestResults[] = [
@@ -705,3 +712,142 @@ Deno.test("processStepPerformance - averages steps across jobs", () => {
   assertEquals(result[1].maxDuration, 30);
   assertEquals(result[1].count, 2);
 });
+
+function createJob(
+  id: number,
+  name: string,
+  conclusion: string | null,
+): WorkflowJob {
+  return {
+    id,
+    run_id: 100,
+    name,
+    status: "completed",
+    conclusion,
+    started_at: "2024-01-01T10:00:00Z",
+    completed_at: "2024-01-01T10:10:00Z",
+  };
+}
+
+Deno.test("findJobForResults - matches job by platform segments", () => {
+  const jobs = [
+    createJob(1, "build debug linux-x86_64", "success"),
+    createJob(2, "test debug linux-x86_64", "success"),
+    createJob(3, "test release linux-x86_64", "success"),
+    createJob(4, "test debug macos-aarch64", "success"),
+  ];
+
+  assertEquals(
+    findJobForResults(parseResultsPlatform("linux-x86_64-debug"), jobs)?.id,
+    2,
+  );
+  assertEquals(
+    findJobForResults(parseResultsPlatform("linux-x86_64-release"), jobs)?.id,
+    3,
+  );
+  assertEquals(
+    findJobForResults(parseResultsPlatform("macos-aarch64-debug"), jobs)?.id,
+    4,
+  );
+  assertEquals(
+    findJobForResults(parseResultsPlatform("windows-x86_64-debug"), jobs),
+    undefined,
+  );
+});
+
+Deno.test("findJobForResults - doesn't match platforms by substring", () => {
+  const jobs = [
+    createJob(1, "test debug linux-x86_64 (integration)", "success"),
+    createJob(2, "test debug linux-x86_64 (unit)", "failure"),
+    createJob(3, "test debug linux-aarch64", "success"),
+  ];
+
+  assertEquals(
+    findJobForResults(parseResultsPlatform("linux-x86_64-debug-unit"), jobs)
+      ?.id,
+    2,
+  );
+  assertEquals(
+    findJobForResults(parseResultsPlatform("linux-x86-debug"), jobs),
+    undefined,
+  );
+});
+
+Deno.test("getResultJobs - gets the conclusion and duration per results name", () => {
+  const jobs = [
+    createJob(1, "test debug linux-x86_64", "failure"),
+    { ...createJob(2, "test debug macos-aarch64", null), completed_at: null },
+  ];
+  const results = [
+    {
+      name: "linux-x86_64-debug",
+      platform: parseResultsPlatform("linux-x86_64-debug"),
+      tests: [],
+    },
+    { name: "macos-aarch64-debug", tests: [] },
+    { name: "windows-x86_64-debug", tests: [] },
+  ];
+
+  assertEquals(getResultJobs(results, jobs), {
+    "linux-x86_64-debug": {
+      name: "test debug linux-x86_64",
+      conclusion: "failure",
+      duration: 10 * 60 * 1000,
+    },
+    "macos-aarch64-debug": {
+      name: "test debug macos-aarch64",
+      conclusion: null,
+      duration: undefined,
+    },
+  });
+});
+
+Deno.test("findJobForResults - prefers failed job when ambiguous", () => {
+  const jobs = [
+    createJob(1, "test debug linux-x86_64", "success"),
+    createJob(2, "test release linux-x86_64", "failure"),
+  ];
+
+  assertEquals(findJobForResults(parseResultsPlatform("linux"), jobs)?.id, 2);
+});
+
+Deno.test("findJobsWithoutResults - finds test jobs missing artifacts", () => {
+  const jobs = [
+    createJob(1, "build debug linux-x86_64", "success"),
+    createJob(2, "test debug linux-x86_64", "success"),
+    createJob(3, "test debug macos-aarch64", "failure"),
+    createJob(4, "test release windows-x86_64", "skipped"),
+    { ...createJob(5, "test release linux-x86_64", null), status: "queued" },
+  ];
+
+  const missing = findJobsWithoutResults(jobs, [{
+    artifactName: "test-results-linux-x86_64-debug-unit.json",
+    resultsName: "linux-x86_64-debug",
+    status: "expired",
+    expiresAt: "2024-01-31T00:00:00Z",
+  }]);
+
+  assertEquals(missing.map((job) => job.id), [3]);
+});
+
+Deno.test("findJobsWithoutResults - matches jobs split per suite", () => {
+  const jobs = [
+    createJob(1, "test debug linux-x86_64 (unit)", "failure"),
+    createJob(2, "test debug linux-x86_64 (integration)", "success"),
+    createJob(3, "test debug linux-x86_64 (node)", "success"),
+  ];
+
+  const missing = findJobsWithoutResults(jobs, [{
+    artifactName: "test-results-linux-x86_64-debug-unit.json",
+    resultsName: "linux-x86_64-debug",
+    status: "downloaded",
+    expiresAt: "2024-01-31T00:00:00Z",
+  }, {
+    artifactName: "test-results-linux-x86_64-debug-integration.json",
+    resultsName: "linux-x86_64-debug",
+    status: "downloaded",
+    expiresAt: "2024-01-31T00:00:00Z",
+  }]);
+
+  assertEquals(missing.map((job) => job.id), [3]);
+});
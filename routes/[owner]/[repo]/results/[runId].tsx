@@ -0,0 +1,1111 @@
+import { define } from "@/define.ts";
+import {
+  type ArtifactResult,
+  getResultsName,
+  type JobTestResults,
+  type RecordedTestResult,
+  type TestResultsDownloader,
+} from "@/lib/test-results-downloader.ts";
+import type { GitHubApiClient, WorkflowJob } from "@/lib/github-api-client.ts";
+import type { Logger } from "@/lib/logger.ts";
+import { RateLimitedError } from "@/lib/rate-limit.ts";
+import { findFailureOutput } from "@/lib/job-log-parser.ts";
+import type { FailureBlocksCache } from "@/lib/failure-blocks-cache.ts";
+import {
+  createAttemptArtifactFilter,
+  getAttemptWindow,
+} from "@/lib/run-attempts.ts";
+import { formatDate, formatDuration, RunAssociations } from "@/lib/render.tsx";
+import {
+  isTestJob,
+  matchesPlatform,
+  parseJobPlatform,
+  parseResultsPlatform,
+  type PlatformDescriptor,
+} from "@/lib/platform.ts";
+
+export const handler = define.handlers({
+  GET(ctx) {
+    const runId = parseInt(ctx.params.runId, 10);
+    const attemptParam = ctx.url.searchParams.get("attempt");
+    const attempt = attemptParam == null
+      ? undefined
+      : parseInt(attemptParam, 10);
+    return ctx.state.store.get("controller.runPage").getForRun(runId, attempt);
+  },
+});
+
+type RunPageGitHubClient = Pick<
+  GitHubApiClient,
+  "getWorkflowRun" | "listJobs" | "downloadJobLogs"
+>;
+
+export class RunPageController {
+  #logger: Logger;
+  #githubClient: RunPageGitHubClient;
+  #downloader: Pick<TestResultsDownloader, "downloadForRunId">;
+  #failureBlocks: FailureBlocksCache;
+
+  constructor(
+    logger: Logger,
+    githubClient: RunPageGitHubClient,
+    downloader: Pick<TestResultsDownloader, "downloadForRunId">,
+    failureBlocks: FailureBlocksCache,
+  ) {
+    this.#logger = logger.withContext(RunPageController.name);
+    this.#githubClient = githubClient;
+    this.#downloader = downloader;
+    this.#failureBlocks = failureBlocks;
+  }
+
+  async getForRun(runId: number, attempt?: number) {
+    if (isNaN(runId)) {
+      return new Response("Invalid run ID", { status: 400 });
+    }
+    if (attempt != null && (isNaN(attempt) || attempt < 1)) {
+      return new Response("Invalid attempt", { status: 400 });
+    }
+
+    const run = await this.#githubClient.getWorkflowRun(runId);
+    if (run == null || (attempt != null && attempt > run.run_attempt)) {
+      return new Response(null, {
+        status: 404,
+      });
+    }
+
+    // without an attempt, show everything the latest attempt has
+    // including the results of jobs carried over from earlier attempts
+    const artifactFilter = attempt == null
+      ? undefined
+      : createAttemptArtifactFilter(
+        await getAttemptWindow(this.#githubClient, run, attempt),
+      );
+    const [{ results, artifacts, truncated }, jobs] = await Promise.all([
+      this.#downloader.downloadForRunId(runId, artifactFilter),
+      this.#githubClient.listJobs(runId, attempt),
+    ]);
+
+    const failureOutputs = await this.#getFailureOutputs(results, jobs);
+
+    return {
+      data: {
+        runId,
+        run,
+        attempt,
+        results,
+        jobs,
+        resultJobs: getResultJobs(results, jobs),
+        failureOutputs,
+        artifacts,
+        jobsWithoutResults: findJobsWithoutResults(jobs, artifacts),
+        // GitHub had more than could be listed
+        truncated: truncated === true || jobs.truncated === true,
+      },
+    };
+  }
+
+  /**
+   * Gets the failure output of failed tests from the logs of the job
+   * that produced them, keyed by job results name then test name.
+   */
+  async #getFailureOutputs(
+    results: JobTestResults[],
+    jobs: WorkflowJob[],
+  ): Promise<Record<string, Record<string, string>>> {
+    const failureOutputs: Record<string, Record<string, string>> = {};
+
+    await Promise.all(results.map(async (jobResults) => {
+      const failedTests = flattenTestsInJob(jobResults.tests)
+        .filter((test) => test.failed);
+      if (failedTests.length === 0) {
+        return;
+      }
+      const job = findJobForResults(getResultsPlatform(jobResults), jobs);
+      if (job == null) {
+        return;
+      }
+
+      try {
+        const blocks = await this.#failureBlocks.get(
+          job,
+          () => this.#githubClient.downloadJobLogs(job.id),
+        );
+        const outputs: Record<string, string> = {};
+        for (const test of failedTests) {
+          const output = findFailureOutput(blocks, test.name);
+          if (output != null) {
+            outputs[test.name] = output;
+          }
+        }
+        failureOutputs[jobResults.name] = outputs;
+      } catch (error) {
+        if (error instanceof RateLimitedError) {
+          throw error;
+        }
+        this.#logger.logError(`Failed to get logs for job ${job.id}:`, error);
+      }
+    }));
+
+    return failureOutputs;
+  }
+}
+
+function getResultsPlatform(results: JobTestResults): PlatformDescriptor {
+  return results.platform ?? parseResultsPlatform(results.name);
+}
+
+/**
+ * Finds the GitHub job that produced the test results of the provided
+ * platform (ex. `linux-x86_64-debug` for the job `test debug linux-x86_64`).
+ */
+export function findJobForResults(
+  platform: PlatformDescriptor,
+  jobs: WorkflowJob[],
+): WorkflowJob | undefined {
+  const candidates = jobs.filter((job) => {
+    const jobPlatform = parseJobPlatform(job.name);
+    return isTestJob(job.name) &&
+      jobPlatform != null && matchesPlatform(jobPlatform, platform);
+  });
+  // prefer the failed job when the name is ambiguous
+  return candidates.find((job) => job.conclusion === "failure") ??
+    candidates[0];
+}
+
+/**
+ * Gets the GitHub job that produced each job's test results, keyed by
+ * the results name, so its conclusion and duration can be shown with them.
+ */
+export function getResultJobs(
+  results: JobTestResults[],
+  jobs: WorkflowJob[],
+): Record<string, ResultJob> {
+  const resultJobs: Record<string, ResultJob> = {};
+  for (const jobResults of results) {
+    const job = findJobForResults(getResultsPlatform(jobResults), jobs);
+    if (job == null) {
+      continue;
+    }
+    resultJobs[jobResults.name] = {
+      name: job.name,
+      conclusion: job.conclusion,
+      duration: job.completed_at == null
+        ? undefined
+        : new Date(job.completed_at).getTime() -
+          new Date(job.started_at).getTime(),
+    };
+  }
+  return resultJobs;
+}
+
+/**
+ * Finds the completed test jobs that have no test result artifact, which
+ * happens when a job failed or was cancelled before uploading its results.
+ */
+export function findJobsWithoutResults(
+  jobs: WorkflowJob[],
+  artifacts: ArtifactResult[],
+): WorkflowJob[] {
+  const jobsWithResults = new Set(
+    artifacts
+      .map((artifact) =>
+        // the results name has no suite, which tells jobs split per suite apart
+        findJobForResults(
+          parseResultsPlatform(getResultsName(artifact.artifactName)),
+          jobs,
+        )
+      )
+      .filter((job) => job != null)
+      .map((job) => job.id),
+  );
+  return jobs.filter((job) =>
+    isTestJob(job.name) &&
+    job.status === "completed" &&
+    job.conclusion !== "skipped" &&
+    !jobsWithResults.has(job.id)
+  );
+}
+
+function ArtifactInventory(
+  { artifacts, jobsWithoutResults }: {
+    artifacts: ArtifactResult[];
+    jobsWithoutResults: WorkflowJob[];
+  },
+) {
+  const unusable = artifacts.filter((artifact) =>
+    artifact.status !== "downloaded"
+  );
+  const withWarnings = artifacts.filter((artifact) =>
+    artifact.warnings != null && artifact.warnings.length > 0
+  );
+  const withSkippedFiles = artifacts.filter((artifact) =>
+    artifact.files?.some((file) => file.error != null)
+  );
+  if (
+    unusable.length === 0 && jobsWithoutResults.length === 0 &&
+    withWarnings.length === 0 && withSkippedFiles.length === 0
+  ) {
+    return null;
+  }
+
+  const downloadedCount = artifacts.length - unusable.length;
+  const isMissingResults = unusable.length > 0 || jobsWithoutResults.length > 0;
+
+  return (
+    <div class="bg-orange-50 border-l-4 border-orange-400 p-4 mb-8">
+      <h2 class="font-semibold text-orange-900 mb-1">
+        {isMissingResults
+          ? "Some test results are missing"
+          : "Some test results were skipped"}
+      </h2>
+      <p class="text-sm text-orange-800 mb-2">
+        Showing results from {downloadedCount} of {artifacts.length}{" "}
+        test result artifacts.
+      </p>
+      <ul class="text-sm text-orange-900 space-y-1 list-disc ml-5">
+        {jobsWithoutResults.map((job) => (
+          <li key={job.id}>
+            <span class="font-semibold">{job.name}</span>{" "}
+            did not upload test results ({job.conclusion ?? job.status})
+          </li>
+        ))}
+        {unusable.map((artifact) => (
+          <li key={artifact.artifactName}>
+            <span class="font-semibold">{artifact.resultsName}</span>{" "}
+            {artifact.status === "expired"
+              ? `results expired on ${formatDate(artifact.expiresAt)}`
+              : `results could not be read: ${artifact.error?.message}`}
+            <span class="text-xs text-orange-700 ml-1 font-mono">
+              ({artifact.artifactName})
+            </span>
+          </li>
+        ))}
+        {withWarnings.map((artifact) => (
+          <li key={artifact.artifactName}>
+            <span class="font-semibold">{artifact.resultsName}</span>{" "}
+            contained invalid test entries that were skipped
+            <span class="text-xs text-orange-700 ml-1 font-mono">
+              ({artifact.artifactName})
+            </span>
+            <ul class="text-xs font-mono ml-4 mt-1 space-y-0.5">
+              {artifact.warnings!.map((warning, i) => (
+                <li key={i}>
+                  {warning.sourceFile != null && `${warning.sourceFile} `}
+                  {warning.path}: {warning.message}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+        {withSkippedFiles.map((artifact) => (
+          <li key={artifact.artifactName}>
+            <span class="font-semibold">{artifact.resultsName}</span>{" "}
+            contained files without test results that were skipped
+            <span class="text-xs text-orange-700 ml-1 font-mono">
+              ({artifact.artifactName})
+            </span>
+            <ul class="text-xs font-mono ml-4 mt-1 space-y-0.5">
+              {artifact.files!.map((file) => (
+                <li key={file.fileName}>
+                  {file.fileName}: {file.error ?? `${file.testCount} tests`}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function TestResultItem(
+  { test, depth = 0, failureOutput }: {
+    test: RecordedTestResult;
+    depth?: number;
+    failureOutput?: string;
+  },
+) {
+  const statusColor = test.failed
+    ? "text-red-600"
+    : test.ignored
+    ? "text-gray-500"
+    : "text-green-600";
+
+  const statusText = test.failed ? "✗" : test.ignored ? "○" : "✓";
+
+  const paddingLeft = depth * 20;
+
+  return (
+    <div>
+      <div
+        class="py-2 px-4 border-b border-gray-200 hover:bg-gray-50"
+        style={{ paddingLeft: `${paddingLeft + 16}px` }}
+      >
+        <div class="flex items-center gap-3">
+          <span class={`font-bold ${statusColor}`}>{statusText}</span>
+          <span class="flex-1 font-mono text-sm">{test.name}</span>
+          {test.flakyCount && test.flakyCount > 0 && (
+            <span class="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
+              Flaky ({test.flakyCount})
+            </span>
+          )}
+          {test.duration && (
+            <span class="text-xs text-gray-600">
+              {formatDuration(test.duration)}
+            </span>
+          )}
+        </div>
+        {test.path && depth === 0 && (
+          <div class="text-xs text-gray-500 mt-1 ml-8">
+            {test.path}
+            {test.sourceFile != null && (
+              <span class="ml-2 font-mono" title="Results file">
+                ({test.sourceFile})
+              </span>
+            )}
+          </div>
+        )}
+        {failureOutput && (
+          <details class="mt-2 ml-8">
+            <summary class="text-xs text-red-700 cursor-pointer select-none">
+              Failure output
+            </summary>
+            <pre class="mt-2 p-3 bg-gray-900 text-gray-100 text-xs rounded overflow-x-auto whitespace-pre">{failureOutput}</pre>
+          </details>
+        )}
+      </div>
+      {test.subTests &&
+        test.subTests.map((subTest) => (
+          <TestResultItem test={subTest} depth={depth + 1} />
+        ))}
+    </div>
+  );
+}
+
+function JobSection(
+  { job, resultJob, failureOutputs }: {
+    job: JobStats;
+    resultJob: ResultJob | undefined;
+    failureOutputs: Record<string, string> | undefined;
+  },
+) {
+  const hasContent = job.failed.length > 0 || job.flaky.length > 0 ||
+    job.longest.length > 0;
+
+  if (!hasContent) return null;
+
+  return (
+    <div class="bg-white rounded-lg shadow-md mb-6">
+      <div class="bg-blue-100 px-4 py-3 rounded-t-lg border-b border-blue-300">
+        <div class="flex items-center justify-between">
+          <h2 class="font-semibold text-xl">{job.jobName}</h2>
+          <div class="text-sm text-blue-900 flex items-center gap-3">
+            {resultJob != null && (
+              <span title={resultJob.name}>
+                {resultJob.conclusion ?? "in progress"}
+                {resultJob.duration != null &&
+                  ` in ${formatDuration(resultJob.duration)}`}
+              </span>
+            )}
+            <span class="font-semibold" title="Total test duration">
+              {formatDuration(job.totalDuration)}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {job.failed.length > 0 && (
+        <div class="border-b border-gray-200">
+          <div class="bg-red-50 px-4 py-2 border-b border-red-200">
+            <h3 class="font-semibold text-red-900">
+              ❌ Failed Tests ({job.failed.length})
+            </h3>
+          </div>
+          <div>
+            {job.failed.map((test, idx) => (
+              <TestResultItem
+                test={test}
+                key={idx}
+                failureOutput={failureOutputs?.[test.name]}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {job.flaky.length > 0 && (
+        <div class="border-b border-gray-200">
+          <div class="bg-yellow-50 px-4 py-2 border-b border-yellow-200">
+            <h3 class="font-semibold text-yellow-900">
+              ⚠️ Flaky Tests ({job.flaky.length})
+            </h3>
+          </div>
+          <div>
+            {job.flaky.map((test, idx) => (
+              <TestResultItem test={test} key={idx} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {job.longest.length > 0 && (
+        <div>
+          <div class="bg-blue-50 px-4 py-2 border-b border-blue-200">
+            <h3 class="font-semibold text-blue-900">
+              ⏱️ Top 10 Longest Tests
+            </h3>
+          </div>
+          <div>
+            {job.longest.map((test, idx) => (
+              <TestResultItem test={test} key={idx} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** The test statistics and the results of each job. */
+export function TestResultsOverview(
+  { results, resultJobs, failureOutputs }: {
+    results: JobTestResults[];
+    /** The GitHub job of each results name, when known. */
+    resultJobs?: Record<string, ResultJob>;
+    failureOutputs: Record<string, Record<string, string>>;
+  },
+) {
+  const { stats, jobStats, topAveragedTests } = processTestResults(results);
+
+  return (
+    <>
+      <div class="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+        <div class="bg-white rounded-lg shadow p-4">
+          <div class="text-gray-600 text-sm mb-1">Total Tests</div>
+          <div class="text-2xl font-bold">{stats.total}</div>
+        </div>
+
+        <div class="bg-white rounded-lg shadow p-4">
+          <div class="text-gray-600 text-sm mb-1">Passed</div>
+          <div class="text-2xl font-bold text-green-600">{stats.passed}</div>
+        </div>
+
+        <div class="bg-white rounded-lg shadow p-4">
+          <div class="text-gray-600 text-sm mb-1">Failed</div>
+          <div class="text-2xl font-bold text-red-600">{stats.failed}</div>
+        </div>
+
+        <div class="bg-white rounded-lg shadow p-4">
+          <div class="text-gray-600 text-sm mb-1">Ignored</div>
+          <div class="text-2xl font-bold text-gray-500">{stats.ignored}</div>
+        </div>
+
+        <div class="bg-white rounded-lg shadow p-4">
+          <div class="text-gray-600 text-sm mb-1">Flaky</div>
+          <div class="text-2xl font-bold text-yellow-600">{stats.flaky}</div>
+        </div>
+      </div>
+
+      <div class="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-8">
+        <div class="flex items-center justify-between">
+          <span class="text-gray-700">Total Duration</span>
+          <span class="font-semibold text-lg">
+            {formatDuration(stats.totalDuration)}
+          </span>
+        </div>
+      </div>
+
+      {topAveragedTests.length > 0 && (
+        <div class="bg-white rounded-lg shadow-md mb-6">
+          <div class="bg-purple-100 px-4 py-3 rounded-t-lg border-b border-purple-300">
+            <h2 class="font-semibold text-xl">
+              📊 Top 15 Slowest Tests (Averaged Across Jobs)
+            </h2>
+            <p class="text-sm text-purple-900 mt-1">
+              Tests that consistently take the longest time across multiple jobs
+            </p>
+          </div>
+          <div>
+            {topAveragedTests.map((test, idx) => (
+              <div key={idx}>
+                <div class="py-2 px-4 border-b border-gray-200 hover:bg-gray-50">
+                  <div class="flex items-center gap-3">
+                    <span class="font-mono text-sm flex-1">
+                      {test.name}
+                    </span>
+                    <span
+                      class="text-xs bg-orange-100 text-orange-800 px-2 py-1 rounded cursor-help"
+                      title={`This test is on average ${
+                        test.normalizedScore.toFixed(1)
+                      }x slower than the median test in its job.`}
+                    >
+                      {test.normalizedScore.toFixed(1)}x slower
+                    </span>
+                    <span class="text-xs text-gray-600 font-semibold">
+                      {formatDuration(test.avgDuration)}
+                    </span>
+                  </div>
+                  {test.path && (
+                    <div class="text-xs text-gray-500 mt-1 ml-0">
+                      {test.path}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {jobStats.map((job) => (
+        <JobSection
+          job={job}
+          key={job.jobName}
+          resultJob={resultJobs?.[job.jobName]}
+          failureOutputs={failureOutputs[job.jobName]}
+        />
+      ))}
+    </>
+  );
+}
+
+export default define.page<typeof handler>(
+  function TestResultsPage({ data, params }) {
+    const {
+      runId,
+      run,
+      attempt,
+      results,
+      jobs,
+      resultJobs,
+      failureOutputs,
+      artifacts,
+      jobsWithoutResults,
+      truncated,
+    } = data;
+    const runPath = `/${params.owner}/${params.repo}/results/${runId}`;
+    // compare the viewed attempt with the one before it
+    const compareHead = attempt != null && attempt > 1
+      ? attempt
+      : run.run_attempt;
+    const stepPerformance = processStepPerformance(jobs);
+    const slowestJobs = getSlowestJobs(jobs);
+
+    return (
+      <div class="container mx-auto px-4 py-8 max-w-7xl">
+        <div class="mb-8">
+          <h1 class="text-3xl font-bold mb-2">
+            Test Results for Run{" "}
+            <a
+              href={`https://github.com/${params.owner}/${params.repo}/actions/runs/${runId}`}
+              class="text-blue-600 hover:text-blue-800"
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              #{runId}
+            </a>
+          </h1>
+          <div class="text-gray-600 mb-2">
+            Branch: <span class="font-semibold">{run.head_branch}</span>
+          </div>
+          <div class="mb-2">
+            <RunAssociations
+              run={run}
+              repoUrl={`https://github.com/${params.owner}/${params.repo}`}
+            />
+          </div>
+          {run.run_attempt > 1 && (
+            <div class="flex flex-wrap items-center gap-2 text-sm mb-2">
+              <span class="text-gray-600">Attempt:</span>
+              <a
+                href={runPath}
+                class={attempt == null
+                  ? "px-2 py-1 rounded bg-blue-500 text-white"
+                  : "px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"}
+              >
+                Latest
+              </a>
+              {Array.from({ length: run.run_attempt }, (_, i) => i + 1).map((
+                n,
+              ) => (
+                <a
+                  key={n}
+                  href={`${runPath}?attempt=${n}`}
+                  class={attempt === n
+                    ? "px-2 py-1 rounded bg-blue-500 text-white"
+                    : "px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"}
+                >
+                  #{n}
+                </a>
+              ))}
+              <a
+                href={`${runPath}/compare?base=${
+                  compareHead - 1
+                }&head=${compareHead}`}
+                class="text-blue-600 hover:text-blue-800 ml-2"
+              >
+                Compare attempts →
+              </a>
+            </div>
+          )}
+          {attempt != null && (
+            <div class="text-xs text-gray-500 mb-2">
+              Showing test results uploaded during attempt #{attempt}
+            </div>
+          )}
+          <a
+            href={`/${params.owner}/${params.repo}`}
+            class="text-blue-600 hover:text-blue-800 text-sm"
+          >
+            ← Back to runs list
+          </a>
+        </div>
+
+        {run.status !== "completed" && (
+          <div class="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-8">
+            <div class="flex items-center">
+              <div class="flex-shrink-0">
+                <span class="text-2xl">⚠️</span>
+              </div>
+              <div class="ml-3">
+                <p class="text-sm text-yellow-800">
+                  <span class="font-semibold">Warning:</span>{" "}
+                  This workflow run hasn't completed yet (Status:{" "}
+                  {run.status}). Test results may be incomplete.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {truncated && (
+          <div class="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-8">
+            <p class="text-sm text-yellow-800">
+              <span class="font-semibold">Warning:</span>{" "}
+              This run has more jobs or artifacts than could be listed. Only the
+              results of the ones that were listed are shown.
+            </p>
+          </div>
+        )}
+
+        <ArtifactInventory
+          artifacts={artifacts}
+          jobsWithoutResults={jobsWithoutResults}
+        />
+
+        <TestResultsOverview
+          results={results}
+          resultJobs={resultJobs}
+          failureOutputs={failureOutputs}
+        />
+
+        <div>
+          {slowestJobs.length > 0 && (
+            <div class="bg-white rounded-lg shadow-md mb-6">
+              <div class="bg-indigo-100 px-4 py-3 rounded-t-lg border-b border-indigo-300">
+                <h2 class="font-semibold text-xl">
+                  🐢 Top {slowestJobs.length} Slowest Jobs
+                </h2>
+                <p class="text-sm text-indigo-900 mt-1">
+                  Jobs sorted by total run duration (wall clock time)
+                </p>
+              </div>
+              <div class="divide-y divide-gray-200">
+                {slowestJobs.map((job, idx) => (
+                  <div
+                    key={idx}
+                    class="px-4 py-3 hover:bg-gray-50 transition-colors"
+                  >
+                    <div class="flex items-center justify-between gap-4">
+                      <div class="flex items-center gap-3 flex-1 min-w-0">
+                        <span class="text-gray-400 text-sm font-mono w-6 text-right">
+                          {idx + 1}.
+                        </span>
+                        <span class="font-mono text-sm truncate">
+                          {job.name}
+                        </span>
+                        {job.conclusion && job.conclusion !== "success" && (
+                          <span
+                            class={`text-xs px-2 py-0.5 rounded ${
+                              job.conclusion === "failure"
+                                ? "bg-red-100 text-red-800"
+                                : "bg-gray-100 text-gray-700"
+                            }`}
+                          >
+                            {job.conclusion}
+                          </span>
+                        )}
+                      </div>
+                      <div class="flex-shrink-0 font-semibold text-sm">
+                        {formatDuration(job.duration)}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {stepPerformance.length > 0 && (
+            <div class="bg-white rounded-lg shadow-md">
+              <div class="bg-green-100 px-4 py-3 rounded-t-lg border-b border-green-300">
+                <h2 class="font-semibold text-xl">
+                  🔍 Slowest Steps by Average Duration ({stepPerformance
+                    .length})
+                </h2>
+                <p class="text-sm text-green-900 mt-1">
+                  Workflow steps taking 6+ seconds, averaged across jobs
+                </p>
+              </div>
+              <div class="divide-y divide-gray-200">
+                {stepPerformance.map((step, idx) => (
+                  <div
+                    key={idx}
+                    class="px-4 py-3 hover:bg-gray-50 transition-colors"
+                  >
+                    <div class="flex items-start justify-between gap-4">
+                      <div class="flex-1 min-w-0">
+                        <div class="font-mono text-sm font-semibold text-gray-900 mb-1">
+                          {step.name}
+                        </div>
+                        <div class="flex items-center gap-4 text-xs text-gray-600">
+                          <span>
+                            Avg:{" "}
+                            <span class="font-semibold">
+                              {formatDuration(step.avgDuration * 1000)}
+                            </span>
+                          </span>
+                          <span>
+                            Min:{" "}
+                            <span class="font-semibold">
+                              {formatDuration(step.minDuration * 1000)}
+                            </span>
+                          </span>
+                          <span>
+                            Max:{" "}
+                            <span class="font-semibold">
+                              {formatDuration(step.maxDuration * 1000)}
+                            </span>
+                          </span>
+                          <span>
+                            Jobs:{" "}
+                            <span class="font-semibold">{step.count}</span>
+                          </span>
+                        </div>
+                      </div>
+                      <div class="flex-shrink-0">
+                        <div class="bg-green-100 text-green-800 px-3 py-2 rounded text-center">
+                          <div class="text-2xl font-bold">
+                            {formatDuration(step.avgDuration * 1000)}
+                          </div>
+                          <div class="text-xs">avg duration</div>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  },
+);
+
+interface NormalizedTest {
+  name: string;
+  path: string;
+  normalizedScore: number;
+  avgDuration: number;
+  jobCount: number;
+}
+
+interface ProcessedPageData {
+  stats: TestStats;
+  jobStats: JobStats[];
+  topAveragedTests: NormalizedTest[];
+}
+
+interface SlowestJob {
+  name: string;
+  duration: number;
+  conclusion: string | null;
+}
+
+interface ResultJob {
+  name: string;
+  conclusion: string | null;
+  duration: number | undefined;
+}
+
+interface StepPerformance {
+  name: string;
+  avgDuration: number;
+  minDuration: number;
+  maxDuration: number;
+  count: number;
+}
+
+export function processStepPerformance(
+  jobs: import("@/lib/github-api-client.ts").WorkflowJob[],
+): StepPerformance[] {
+  const stepPerformanceMap = new Map<
+    string,
+    {
+      totalDuration: number;
+      minDuration: number;
+      maxDuration: number;
+      count: number;
+    }
+  >();
+
+  jobs.forEach((job) => {
+    // Only process steps from "test" jobs
+    if (job.steps && job.name.startsWith("test")) {
+      job.steps.forEach((step) => {
+        if (step.started_at && step.completed_at) {
+          const duration = new Date(step.completed_at).getTime() -
+            new Date(step.started_at).getTime();
+          const durationInSeconds = duration / 1000;
+
+          // Skip steps that take less than 6 seconds
+          if (durationInSeconds < 6) {
+            return;
+          }
+
+          const existing = stepPerformanceMap.get(step.name);
+          if (existing) {
+            existing.totalDuration += durationInSeconds;
+            existing.minDuration = Math.min(
+              existing.minDuration,
+              durationInSeconds,
+            );
+            existing.maxDuration = Math.max(
+              existing.maxDuration,
+              durationInSeconds,
+            );
+            existing.count++;
+          } else {
+            stepPerformanceMap.set(step.name, {
+              totalDuration: durationInSeconds,
+              minDuration: durationInSeconds,
+              maxDuration: durationInSeconds,
+              count: 1,
+            });
+          }
+        }
+      });
+    }
+  });
+
+  // Convert to array and sort by average duration descending
+  return Array.from(stepPerformanceMap.entries())
+    .map(([name, data]) => ({
+      name,
+      avgDuration: data.totalDuration / data.count,
+      minDuration: data.minDuration,
+      maxDuration: data.maxDuration,
+      count: data.count,
+    }))
+    .sort((a, b) => b.avgDuration - a.avgDuration);
+}
+
+export function getSlowestJobs(
+  jobs: import("@/lib/github-api-client.ts").WorkflowJob[],
+): SlowestJob[] {
+  return jobs
+    .filter((job) => job.started_at && job.completed_at)
+    .map((job) => ({
+      name: job.name,
+      duration: new Date(job.completed_at!).getTime() -
+        new Date(job.started_at).getTime(),
+      conclusion: job.conclusion,
+    }))
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, 15);
+}
+
+export function processTestResults(
+  results: JobTestResults[],
+): ProcessedPageData {
+  const stats = calculateStats(results);
+  const jobStats = results.map(getJobStats).sort((a, b) =>
+    a.jobName.localeCompare(b.jobName)
+  );
+
+  // Calculate normalized slowest tests across all jobs
+  // Normalize each test's duration relative to its job's median duration
+  const testNormalizedScores = new Map<
+    string,
+    { scores: number[]; durations: number[]; path: string }
+  >();
+
+  results.forEach((jobResult) => {
+    // Flatten all tests in this job to get all durations
+    const allTests = flattenTestsInJob(jobResult.tests);
+    const allDurations = allTests
+      .map((t) => t.duration || 0)
+      .filter((d) => d > 0)
+      .sort((a, b) => a - b);
+
+    const median = allDurations.length > 0
+      ? allDurations[Math.floor(allDurations.length / 2)]
+      : 1;
+
+    // Process all tests from this job
+    allTests.forEach((test) => {
+      if (!test.duration || test.duration === 0) return;
+
+      // Skip unit tests
+      if (isUnitTest(test)) {
+        return;
+      }
+
+      if (!testNormalizedScores.has(test.name)) {
+        testNormalizedScores.set(test.name, {
+          scores: [],
+          durations: [],
+          path: test.path,
+        });
+      }
+      const data = testNormalizedScores.get(test.name)!;
+      // Normalize: how many times slower than the median test in this job?
+      const normalizedScore = (test.duration || 0) / median;
+      data.scores.push(normalizedScore);
+      data.durations.push(test.duration || 0);
+    });
+  });
+
+  // Calculate average normalized score for each test
+  const normalizedTests: NormalizedTest[] = Array.from(
+    testNormalizedScores.entries(),
+  ).map(
+    ([name, data]) => {
+      const avgScore = data.scores.reduce((a, b) => a + b, 0) /
+        data.scores.length;
+      const avgDuration = data.durations.reduce((a, b) => a + b, 0) /
+        data.durations.length;
+
+      return {
+        name,
+        path: data.path,
+        normalizedScore: avgScore,
+        avgDuration,
+        jobCount: data.scores.length,
+      };
+    },
+  );
+
+  // Sort by normalized score (tests that are consistently slow relative to their job)
+  const topAveragedTests = normalizedTests
+    .sort((a, b) => b.normalizedScore - a.normalizedScore)
+    .slice(0, 15);
+
+  return { stats, jobStats, topAveragedTests };
+}
+
+interface JobStats {
+  jobName: string;
+  failed: RecordedTestResult[];
+  flaky: RecordedTestResult[];
+  longest: RecordedTestResult[];
+  totalDuration: number;
+}
+
+function flattenTestsInJob(tests: RecordedTestResult[]): RecordedTestResult[] {
+  const flattened: RecordedTestResult[] = [];
+
+  function flatten(test: RecordedTestResult) {
+    flattened.push(test);
+    if (test.subTests) {
+      test.subTests.forEach(flatten);
+    }
+  }
+
+  tests.forEach(flatten);
+  return flattened;
+}
+
+function getJobStats(job: JobTestResults): JobStats {
+  const allTests = flattenTestsInJob(job.tests);
+
+  const failed = allTests.filter((test) => test.failed);
+  const flaky = allTests.filter(
+    (test) => test.flakyCount && test.flakyCount > 0,
+  );
+
+  // Get top 10 longest tests (only root level tests)
+  const longest = job.tests
+    .filter((test) => test.duration != null && !isUnitTest(test))
+    .sort((a, b) => (b.duration || 0) - (a.duration || 0))
+    .slice(0, 10);
+
+  // Calculate total duration
+  const totalDuration = allTests.reduce(
+    (sum, test) => sum + (test.duration || 0),
+    0,
+  );
+
+  return {
+    jobName: job.name,
+    failed,
+    flaky,
+    longest,
+    totalDuration,
+  };
+}
+
+interface TestStats {
+  total: number;
+  passed: number;
+  failed: number;
+  ignored: number;
+  flaky: number;
+  totalDuration: number;
+}
+
+function calculateStats(results: JobTestResults[]): TestStats {
+  const stats: TestStats = {
+    total: 0,
+    passed: 0,
+    failed: 0,
+    ignored: 0,
+    flaky: 0,
+    totalDuration: 0,
+  };
+
+  function processTest(test: RecordedTestResult) {
+    stats.total++;
+
+    if (test.failed) {
+      stats.failed++;
+    } else if (test.ignored) {
+      stats.ignored++;
+    } else {
+      stats.passed++;
+    }
+
+    if (test.flakyCount && test.flakyCount > 0) {
+      stats.flaky++;
+    }
+
+    if (test.duration) {
+      stats.totalDuration += test.duration;
+    }
+
+    if (test.subTests) {
+      test.subTests.forEach(processTest);
+    }
+  }
+
+  results.forEach((result) => {
+    result.tests.forEach(processTest);
+  });
+
+  return stats;
+}
+
+function isUnitTest(test: RecordedTestResult) {
+  return test.name.startsWith("unit::") || test.name.startsWith("unit_node::");
+}
@@ -0,0 +1,154 @@
+import { define } from "@/define.ts";
+import type { GitHubApiClient } from "@/lib/github-api-client.ts";
+import type { TestResultsDownloader } from "@/lib/test-results-downloader.ts";
+import {
+  type AttemptTestChange,
+  compareAttempts,
+  createAttemptArtifactFilter,
+  getAttemptWindow,
+} from "@/lib/run-attempts.ts";
+
+export const handler = define.handlers({
+  GET(ctx) {
+    const runId = parseInt(ctx.params.runId, 10);
+    const base = parseInt(ctx.url.searchParams.get("base") ?? "1", 10);
+    const head = parseInt(ctx.url.searchParams.get("head") ?? "2", 10);
+    return ctx.state.store.get("controller.attemptComparison")
+      .get(runId, base, head);
+  },
+});
+
+export class AttemptComparisonController {
+  #githubClient: Pick<GitHubApiClient, "getWorkflowRun">;
+  #downloader: TestResultsDownloader;
+
+  constructor(
+    githubClient: Pick<GitHubApiClient, "getWorkflowRun">,
+    downloader: TestResultsDownloader,
+  ) {
+    this.#githubClient = githubClient;
+    this.#downloader = downloader;
+  }
+
+  async get(runId: number, base: number, head: number) {
+    if (isNaN(runId) || isNaN(base) || isNaN(head)) {
+      return new Response("Invalid run ID or attempt", { status: 400 });
+    }
+
+    const run = await this.#githubClient.getWorkflowRun(runId);
+    if (run == null) {
+      return new Response(null, { status: 404 });
+    }
+    if (
+      base < 1 || head < 1 || base > run.run_attempt ||
+      head > run.run_attempt || base === head
+    ) {
+      return new Response("Invalid attempts", { status: 400 });
+    }
+
+    const [baseResults, headResults] = await Promise.all(
+      [base, head].map(async (attempt) => {
+        const window = await getAttemptWindow(
+          this.#githubClient,
+          run,
+          attempt,
+        );
+        const { results } = await this.#downloader.downloadForRunId(
+          runId,
+          createAttemptArtifactFilter(window),
+        );
+        return results;
+      }),
+    );
+
+    return {
+      data: {
+        runId,
+        run,
+        base,
+        head,
+        comparison: compareAttempts(baseResults, headResults),
+      },
+    };
+  }
+}
+
+function ChangeList(
+  { title, description, tests, color }: {
+    title: string;
+    description: string;
+    tests: AttemptTestChange[];
+    color: "red" | "green";
+  },
+) {
+  const headerClass = color === "red"
+    ? "bg-red-100 border-red-300"
+    : "bg-green-100 border-green-300";
+
+  return (
+    <div class="bg-white rounded-lg shadow-md mb-6">
+      <div class={`px-4 py-3 rounded-t-lg border-b ${headerClass}`}>
+        <h2 class="font-semibold text-xl">{title} ({tests.length})</h2>
+        <p class="text-sm text-gray-700 mt-1">{description}</p>
+      </div>
+      {tests.length === 0
+        ? <div class="px-4 py-6 text-center text-gray-500">No tests</div>
+        : (
+          <div class="divide-y divide-gray-200">
+            {tests.map((test, idx) => (
+              <div key={idx} class="px-4 py-2 hover:bg-gray-50">
+                <div class="flex items-center gap-3">
+                  <span class="flex-1 font-mono text-sm">{test.name}</span>
+                  <span class="text-xs text-gray-600">{test.jobName}</span>
+                </div>
+                {test.path && (
+                  <div class="text-xs text-gray-500 mt-1">{test.path}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+    </div>
+  );
+}
+
+export default define.page<typeof handler>(
+  function AttemptComparisonPage({ data, params }) {
+    const { runId, base, head, comparison } = data;
+    const runPath = `/${params.owner}/${params.repo}/results/${runId}`;
+
+    return (
+      <div class="container mx-auto px-4 py-8 max-w-7xl">
+        <div class="mb-8">
+          <h1 class="text-3xl font-bold mb-2">
+            Attempt #{base} vs #{head} for Run{" "}
+            <a href={runPath} class="text-blue-600 hover:text-blue-800">
+              #{runId}
+            </a>
+          </h1>
+          <p class="text-gray-600 mb-2 text-sm">
+            Only tests that ran in both attempts are compared. Artifacts are
+            assigned to an attempt by when they were uploaded, so results
+            replaced by a later attempt can't be compared.
+          </p>
+          <a href={runPath} class="text-blue-600 hover:text-blue-800 text-sm">
+            ← Back to run
+          </a>
+        </div>
+
+        <ChangeList
+          title={`Failed in #${base}, passed in #${head}`}
+          description="Tests that stopped failing between the attempts"
+          tests={comparison.failedInBase}
+          color="green"
+        />
+        <ChangeList
+          title={`Passed in #${base}, failed in #${head}`}
+          description="Tests that started failing between the attempts"
+          tests={comparison.failedInHead}
+          color="red"
+        />
+      </div>
+    );
+  },
+);
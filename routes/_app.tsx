@@ -1,6 +1,10 @@
 import { define } from "@/define.ts";
+import { formatTime } from "@/lib/render.tsx";
+
+export default define.page(function App({ Component, state }) {
+  const budget = state.store.get("rateLimitTracker").budget;
+  const artifactStats = state.store.get("testResultArtifactStore").stats;
 
-export default define.page(function App({ Component }) {
   return (
     <html>
       <head>
@@ -10,6 +14,19 @@ export default define.page(function App({ Component }) {
       </head>
       <body>
         <Component />
+        <footer class="text-center text-xs text-gray-500 py-4">
+          {budget && (
+            <div>
+              GitHub API budget: {budget.remaining} of {budget.limit}{" "}
+              remaining, resets at {formatTime(budget.resetAt)}
+            </div>
+          )}
+          <div>
+            Artifact cache: {artifactStats.hits} hits, {artifactStats.misses}
+            {" "}
+            misses, {artifactStats.errors} errors
+          </div>
+        </footer>
       </body>
     </html>
   );
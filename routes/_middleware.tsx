@@ -0,0 +1,34 @@
+import { define } from "@/define.ts";
+import { RateLimitedError } from "@/lib/rate-limit.ts";
+import { formatTime } from "@/lib/render.tsx";
+
+export const handler = define.middleware(async (ctx) => {
+  try {
+    return await ctx.next();
+  } catch (error) {
+    if (!(error instanceof RateLimitedError)) {
+      throw error;
+    }
+    const retryAfterSeconds = Math.max(
+      0,
+      Math.ceil((error.retryAt.getTime() - Date.now()) / 1000),
+    );
+    return ctx.render(
+      <div class="container mx-auto px-4 py-8 max-w-3xl">
+        <div class="bg-yellow-50 border-l-4 border-yellow-400 p-4">
+          <h1 class="text-xl font-semibold text-yellow-900 mb-2">
+            GitHub API rate limit reached
+          </h1>
+          <p class="text-sm text-yellow-800">
+            Too many requests were made to GitHub. Try again at{" "}
+            <span class="font-semibold">{formatTime(error.retryAt)}</span>.
+          </p>
+        </div>
+      </div>,
+      {
+        status: 429,
+        headers: { "Retry-After": retryAfterSeconds.toString() },
+      },
+    );
+  }
+});
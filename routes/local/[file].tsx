@@ -0,0 +1,18 @@
+import { define } from "@/define.ts";
+import { LocalResultsPage } from "./index.tsx";
+
+export const handler = define.handlers({
+  GET(ctx) {
+    return ctx.state.store.get("controller.localResults")
+      .getFile(ctx.params.file);
+  },
+});
+
+export default define.page<typeof handler>(function LocalFilePage({ data }) {
+  return (
+    <LocalResultsPage
+      data={data}
+      description="Test results from a file in the local results directory"
+    />
+  );
+});
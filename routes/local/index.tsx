@@ -0,0 +1,182 @@
+import { define } from "@/define.ts";
+import type { ArtifactParser } from "@/lib/artifact-parser.ts";
+import {
+  type LocalResultsDirectory,
+  type LocalResultsFile,
+  parseResultsFile,
+  readLimitedFormData,
+  type UploadedResultsStore,
+  UploadTooLargeError,
+} from "@/lib/local-results.ts";
+import type { JobTestResults } from "@/lib/test-results-downloader.ts";
+import { TestResultsOverview } from "@/routes/[owner]/[repo]/results/[runId].tsx";
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+export const handler = define.handlers({
+  GET(ctx) {
+    return ctx.state.store.get("controller.localResults").getDirectory();
+  },
+});
+
+/** Shows test results that don't come from the GitHub API. */
+export class LocalResultsController {
+  #directory: LocalResultsDirectory | undefined;
+  #uploads: UploadedResultsStore;
+  #parser: ArtifactParser;
+
+  constructor(
+    directory: LocalResultsDirectory | undefined,
+    uploads: UploadedResultsStore,
+    parser: ArtifactParser,
+  ) {
+    this.#directory = directory;
+    this.#uploads = uploads;
+    this.#parser = parser;
+  }
+
+  async getDirectory() {
+    if (this.#directory == null) {
+      return new Response("Local results directory not configured", {
+        status: 404,
+      });
+    }
+    const files = await this.#directory.list();
+    return await this.#load(this.#directory.dir, files);
+  }
+
+  async getFile(fileName: string) {
+    if (this.#directory == null) {
+      return new Response("Local results directory not configured", {
+        status: 404,
+      });
+    }
+    const file = (await this.#directory.list())
+      .find((file) => file.name === fileName);
+    if (file == null) {
+      return new Response("File not found", { status: 404 });
+    }
+    return await this.#load(file.name, [file]);
+  }
+
+  getUpload(id: string) {
+    const upload = this.#uploads.get(id);
+    if (upload == null) {
+      return new Response("Upload not found or expired", { status: 404 });
+    }
+    return {
+      data: {
+        title: upload.fileName,
+        files: undefined,
+        results: upload.results,
+      } satisfies LocalResultsData,
+    };
+  }
+
+  /** Parses an uploaded results file and redirects to its page. */
+  async upload(request: Request) {
+    let formData: FormData;
+    try {
+      formData = await readLimitedFormData(request, MAX_UPLOAD_BYTES);
+    } catch (error) {
+      if (error instanceof UploadTooLargeError) {
+        return new Response("Results file is too large", { status: 413 });
+      }
+      return new Response("Invalid form data", { status: 400 });
+    }
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return new Response("Missing results file", { status: 400 });
+    }
+    try {
+      const artifact = await parseResultsFile(this.#parser, file.name, file);
+      const upload = this.#uploads.add(file.name, artifact);
+      return new Response(null, {
+        status: 303,
+        headers: { Location: `/upload/${upload.id}` },
+      });
+    } catch (error) {
+      return new Response(
+        `Failed to read ${file.name}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        { status: 422 },
+      );
+    }
+  }
+
+  async #load(title: string, files: LocalResultsFile[]) {
+    try {
+      const results = await this.#directory!.load(
+        files.map((file) => file.name),
+      );
+      if (results == null) {
+        return new Response("File not found", { status: 404 });
+      }
+      return { data: { title, files, results } satisfies LocalResultsData };
+    } catch (error) {
+      return new Response(
+        `Failed to read results: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        { status: 422 },
+      );
+    }
+  }
+}
+
+export interface LocalResultsData {
+  title: string;
+  /** Files in the local results directory when showing it. */
+  files: LocalResultsFile[] | undefined;
+  results: JobTestResults[];
+}
+
+export function LocalResultsPage(
+  { data, description }: { data: LocalResultsData; description: string },
+) {
+  return (
+    <div class="container mx-auto px-4 py-8 max-w-7xl">
+      <div class="mb-8">
+        <h1 class="text-3xl font-bold mb-2 break-all">{data.title}</h1>
+        <div class="text-gray-600 mb-2">{description}</div>
+        <a href="/upload" class="text-blue-600 hover:text-blue-800 text-sm">
+          Upload a results file →
+        </a>
+      </div>
+
+      {data.files != null && data.files.length > 1 && (
+        <div class="bg-white rounded-lg shadow mb-8 p-4 text-sm">
+          <div class="font-semibold mb-2">
+            {data.files.length} results files
+          </div>
+          <ul class="space-y-1">
+            {data.files.map((file) => (
+              <li key={file.name}>
+                <a
+                  href={`/local/${encodeURIComponent(file.name)}`}
+                  class="text-blue-600 hover:text-blue-800 font-mono"
+                >
+                  {file.name}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <TestResultsOverview results={data.results} failureOutputs={{}} />
+    </div>
+  );
+}
+
+export default define.page<typeof handler>(function LocalDirectoryPage({
+  data,
+}) {
+  return (
+    <LocalResultsPage
+      data={data}
+      description="Test results from the local results directory"
+    />
+  );
+});
@@ -0,0 +1,18 @@
+import { define } from "@/define.ts";
+import { LocalResultsPage } from "@/routes/local/index.tsx";
+
+export const handler = define.handlers({
+  GET(ctx) {
+    return ctx.state.store.get("controller.localResults")
+      .getUpload(ctx.params.id);
+  },
+});
+
+export default define.page<typeof handler>(function UploadPage({ data }) {
+  return (
+    <LocalResultsPage
+      data={data}
+      description="Uploaded test results. They're only kept temporarily."
+    />
+  );
+});
@@ -0,0 +1,43 @@
+import { define } from "@/define.ts";
+
+export const handler = define.handlers({
+  GET() {
+    return { data: {} };
+  },
+  async POST(ctx) {
+    return await ctx.state.store.get("controller.localResults")
+      .upload(ctx.req);
+  },
+});
+
+export default define.page<typeof handler>(function UploadFormPage() {
+  return (
+    <div class="container mx-auto px-4 py-8 max-w-3xl">
+      <h1 class="text-3xl font-bold mb-2">Upload Test Results</h1>
+      <p class="text-gray-600 mb-6">
+        View a <span class="font-mono">test-results-*.json</span>{" "}
+        file or a JUnit XML report from a local test run, or a test results
+        artifact downloaded from GitHub as a zip.
+      </p>
+      <form
+        method="post"
+        enctype="multipart/form-data"
+        class="bg-white rounded-lg shadow p-4 flex items-center gap-4"
+      >
+        <input
+          type="file"
+          name="file"
+          accept=".json,.xml,.zip"
+          required
+          class="flex-1 text-sm"
+        />
+        <button
+          type="submit"
+          class="px-4 py-2 rounded bg-blue-500 text-white hover:bg-blue-600 text-sm"
+        >
+          View results
+        </button>
+      </form>
+    </div>
+  );
+});
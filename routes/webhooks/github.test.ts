@@ -0,0 +1,268 @@
+import { assertEquals } from "@std/assert";
+import { GitHubWebhookController } from "./github.tsx";
+import type { Repository } from "@/lib/config.ts";
+import { NullLogger } from "@/lib/logger.ts";
+import { signWebhookBody, WebhookDeliveryLog } from "@/lib/webhooks.ts";
+import type { StoredRun } from "@/lib/history-database.ts";
+import payload from "@/lib/testdata/workflow_run_completed.json" with {
+  type: "json",
+};
+
+const SECRET = "webhook-secret";
+
+class MockRunIngestionQueue {
+  queued: { repository: Repository; runId: number; attempt: number }[] = [];
+  result: Promise<string> = Promise.resolve("ingested");
+
+  enqueue(repository: Repository, runId: number, attempt: number) {
+    if (
+      this.queued.some((run) => run.runId === runId && run.attempt === attempt)
+    ) {
+      return undefined;
+    }
+    this.queued.push({ repository, runId, attempt });
+    return this.result;
+  }
+}
+
+class MockHistoryDatabase {
+  runs = new Map<number, Pick<StoredRun, "runAttempt">>();
+
+  getRun(_repository: Repository, runId: number) {
+    return this.runs.get(runId) as StoredRun | undefined;
+  }
+}
+
+function createController(secret: string | undefined) {
+  const repositories = [{ owner: "denoland", name: "deno" }];
+  const deliveries = new WebhookDeliveryLog();
+  const db = new MockHistoryDatabase();
+  const queue = new MockRunIngestionQueue();
+  const controller = new GitHubWebhookController(
+    new NullLogger(),
+    {
+      webhookSecret: secret,
+      webhookDeliveriesToken: "deliveries-token",
+      workflows: ["ci.yml"],
+      findRepository: (owner, name) =>
+        repositories.find((repo) => repo.owner === owner && repo.name === name),
+    },
+    deliveries,
+    db,
+    queue,
+  );
+  return { controller, deliveries, db, queue };
+}
+
+async function createRequest(
+  body: unknown,
+  options: { id?: string; event?: string; secret?: string } = {},
+) {
+  const bytes = new TextEncoder().encode(JSON.stringify(body));
+  return new Request("http://localhost/webhooks/github", {
+    method: "POST",
+    body: bytes,
+    headers: {
+      "X-GitHub-Delivery": options.id ?? "delivery-1",
+      "X-GitHub-Event": options.event ?? "workflow_run",
+      "X-Hub-Signature-256": await signWebhookBody(
+        options.secret ?? SECRET,
+        bytes,
+      ),
+    },
+  });
+}
+
+Deno.test("queues completed runs of configured workflows", async () => {
+  const { controller, queue } = createController(SECRET);
+
+  const response = await controller.receive(await createRequest(payload));
+
+  assertEquals(response.status, 202);
+  assertEquals(queue.queued, [{
+    repository: { owner: "denoland", name: "deno" },
+    runId: 18956235521,
+    attempt: 1,
+  }]);
+});
+
+Deno.test("rejects invalid signatures", async () => {
+  const { controller, queue } = createController(SECRET);
+
+  const response = await controller.receive(
+    await createRequest(payload, { secret: "other-secret" }),
+  );
+
+  assertEquals(response.status, 401);
+  assertEquals(queue.queued, []);
+});
+
+Deno.test("ignores replayed runs", async () => {
+  const { controller, queue } = createController(SECRET);
+  await controller.receive(await createRequest(payload));
+
+  // the delivery id isn't signed, so the same event can be sent with a new one
+  const resent = await controller.receive(
+    await createRequest(payload, { id: "delivery-2" }),
+  );
+  assertEquals(resent.status, 200);
+  assertEquals(await resent.text(), "Run already queued");
+  assertEquals(queue.queued.length, 1);
+});
+
+Deno.test("ignores runs that were already ingested", async () => {
+  const { controller, db, queue } = createController(SECRET);
+  db.runs.set(payload.workflow_run.id, { runAttempt: 1 });
+
+  const replayed = await controller.receive(await createRequest(payload));
+  assertEquals(replayed.status, 200);
+  assertEquals(await replayed.text(), "Run already ingested");
+
+  // a new attempt is queued
+  const rerun = await controller.receive(
+    await createRequest({
+      ...payload,
+      workflow_run: { ...payload.workflow_run, run_attempt: 2 },
+    }),
+  );
+  assertEquals(rerun.status, 202);
+  assertEquals(queue.queued.map((run) => run.attempt), [2]);
+});
+
+Deno.test("ignores other events, actions, repositories and workflows", async () => {
+  const { controller, queue } = createController(SECRET);
+  const run = payload.workflow_run;
+
+  const responses = [
+    await controller.receive(
+      await createRequest({ zen: "Keep it simple." }, { event: "ping" }),
+    ),
+    await controller.receive(
+      await createRequest({ ...payload, action: "requested" }),
+    ),
+    await controller.receive(
+      await createRequest({
+        ...payload,
+        repository: { ...payload.repository, name: "std" },
+      }),
+    ),
+    await controller.receive(
+      await createRequest({
+        ...payload,
+        workflow_run: {
+          ...run,
+          path: ".github/workflows/pr.yml",
+          workflow_id: 1,
+        },
+      }),
+    ),
+  ];
+
+  assertEquals(queue.queued, []);
+  assertEquals(
+    await Promise.all(responses.map((response) => response.text())),
+    [
+      "Event ignored: ping",
+      "Event ignored: Action requested",
+      "Event ignored: Repository denoland/std not configured",
+      "Event ignored: Workflow .github/workflows/pr.yml not configured",
+    ],
+  );
+});
+
+Deno.test("is disabled without a secret", async () => {
+  const { controller } = createController(undefined);
+
+  const response = await controller.receive(await createRequest(payload));
+
+  assertEquals(response.status, 404);
+});
+
+Deno.test("rejects payloads without the used fields", async () => {
+  const { controller, queue } = createController(SECRET);
+
+  const response = await controller.receive(
+    await createRequest({
+      ...payload,
+      workflow_run: { ...payload.workflow_run, id: "1" },
+    }),
+  );
+  const missing = await controller.receive(
+    await createRequest({ action: "completed" }),
+  );
+
+  assertEquals(response.status, 400);
+  assertEquals(missing.status, 400);
+  assertEquals(queue.queued, []);
+});
+
+Deno.test("records the outcome of every delivery", async () => {
+  const { controller, db, deliveries, queue } = createController(SECRET);
+  queue.result = Promise.reject(new Error("download failed"));
+  queue.result.catch(() => {});
+
+  await controller.receive(await createRequest(payload, { id: "queued" }));
+  await controller.receive(
+    await createRequest(payload, { id: "replayed" }),
+  );
+  db.runs.set(1, { runAttempt: 1 });
+  await controller.receive(
+    await createRequest({
+      ...payload,
+      workflow_run: { ...payload.workflow_run, id: 1 },
+    }, { id: "ingested" }),
+  );
+  await controller.receive(
+    await createRequest({ zen: "Keep it simple." }, {
+      id: "ping",
+      event: "ping",
+    }),
+  );
+  await controller.receive(
+    await createRequest(payload, { id: "forged", secret: "other-secret" }),
+  );
+  await controller.receive(
+    await createRequest({ action: "completed" }, { id: "invalid" }),
+  );
+  await Promise.resolve();
+
+  assertEquals(
+    deliveries.entries.map(({ id, status }) => ({ id, status })),
+    [
+      { id: "invalid", status: "rejected" },
+      { id: "forged", status: "rejected" },
+      { id: "ping", status: "ignored" },
+      { id: "ingested", status: "duplicate" },
+      { id: "replayed", status: "duplicate" },
+      { id: "queued", status: "failed" },
+    ],
+  );
+  assertEquals(
+    deliveries.entries[5].detail,
+    "Run 18956235521: download failed",
+  );
+});
+
+Deno.test("only shows the deliveries with the token", async () => {
+  const { controller } = createController(SECRET);
+  await controller.receive(await createRequest(payload));
+
+  const request = (authorization?: string) =>
+    new Request("http://localhost/webhooks/github", {
+      headers: authorization == null ? {} : { Authorization: authorization },
+    });
+
+  assertEquals(
+    (controller.getDeliveries(request()) as Response).status,
+    401,
+  );
+  assertEquals(
+    (controller.getDeliveries(request("Bearer other")) as Response).status,
+    401,
+  );
+  const result = controller.getDeliveries(request("Bearer deliveries-token"));
+  assertEquals(
+    "data" in result ? result.data.deliveries.map((d) => d.status) : [],
+    ["completed"],
+  );
+});
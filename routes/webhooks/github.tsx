@@ -0,0 +1,254 @@
+import { define } from "@/define.ts";
+import type { ConfigProvider } from "@/lib/config.ts";
+import type { HistoryDatabase } from "@/lib/history-database.ts";
+import type { Logger } from "@/lib/logger.ts";
+import type { RunIngestionQueue } from "@/lib/run-ingestion-queue.ts";
+import { formatDate } from "@/lib/render.tsx";
+import {
+  hasBearerToken,
+  parseWorkflowRunEvent,
+  verifyWebhookSignature,
+  type WebhookDelivery,
+  type WebhookDeliveryLog,
+  type WorkflowRunEvent,
+} from "@/lib/webhooks.ts";
+
+export const handler = define.handlers({
+  GET(ctx) {
+    return ctx.state.store.get("controller.githubWebhook").getDeliveries(
+      ctx.req,
+    );
+  },
+  POST(ctx) {
+    return ctx.state.store.get("controller.githubWebhook").receive(ctx.req);
+  },
+});
+
+type WebhookConfig = Pick<
+  ConfigProvider,
+  "webhookSecret" | "webhookDeliveriesToken" | "findRepository" | "workflows"
+>;
+
+export class GitHubWebhookController {
+  #logger: Logger;
+  #config: WebhookConfig;
+  #deliveries: WebhookDeliveryLog;
+  #db: Pick<HistoryDatabase, "getRun"> | undefined;
+  #queue: Pick<RunIngestionQueue, "enqueue">;
+
+  constructor(
+    logger: Logger,
+    config: WebhookConfig,
+    deliveries: WebhookDeliveryLog,
+    db: Pick<HistoryDatabase, "getRun"> | undefined,
+    queue: Pick<RunIngestionQueue, "enqueue">,
+  ) {
+    this.#logger = logger.withContext(GitHubWebhookController.name);
+    this.#config = config;
+    this.#deliveries = deliveries;
+    this.#db = db;
+    this.#queue = queue;
+  }
+
+  /** Shows the recent deliveries to requests with the deliveries token. */
+  getDeliveries(request: Request) {
+    const token = this.#config.webhookDeliveriesToken;
+    if (this.#config.webhookSecret == null || token == null) {
+      return new Response("Not found", { status: 404 });
+    }
+    if (!hasBearerToken(request.headers.get("Authorization"), token)) {
+      return new Response("Unauthorized", {
+        status: 401,
+        headers: { "WWW-Authenticate": "Bearer" },
+      });
+    }
+    return { data: { deliveries: this.#deliveries.entries } };
+  }
+
+  async receive(request: Request): Promise<Response> {
+    const secret = this.#config.webhookSecret;
+    if (secret == null) {
+      return new Response("Webhooks not configured", { status: 404 });
+    }
+    const id = request.headers.get("X-GitHub-Delivery");
+    const event = request.headers.get("X-GitHub-Event");
+    if (id == null || event == null) {
+      this.#deliveries.add({
+        id: id ?? "",
+        event: event ?? "",
+        status: "rejected",
+        detail: "Missing delivery headers",
+      });
+      return new Response("Missing delivery headers", { status: 400 });
+    }
+
+    const body = new Uint8Array(await request.arrayBuffer());
+    const signature = request.headers.get("X-Hub-Signature-256");
+    if (!await verifyWebhookSignature(secret, body, signature)) {
+      this.#logger.log(`Rejected delivery ${id} with an invalid signature`);
+      this.#deliveries.add({
+        id,
+        event,
+        status: "rejected",
+        detail: "Invalid signature",
+      });
+      return new Response("Invalid signature", { status: 401 });
+    }
+
+    if (event !== "workflow_run") {
+      this.#deliveries.add({ id, event, status: "ignored", detail: event });
+      return new Response(`Event ignored: ${event}`, { status: 200 });
+    }
+    let payload: WorkflowRunEvent | undefined;
+    try {
+      payload = parseWorkflowRunEvent(
+        JSON.parse(new TextDecoder().decode(body)),
+      );
+    } catch {
+      payload = undefined;
+    }
+    if (payload == null) {
+      this.#deliveries.add({
+        id,
+        event,
+        status: "rejected",
+        detail: "Invalid payload",
+      });
+      return new Response("Invalid payload", { status: 400 });
+    }
+
+    const ignoredReason = this.#getIgnoredReason(payload);
+    if (ignoredReason != null) {
+      this.#deliveries.add({
+        id,
+        event,
+        status: "ignored",
+        detail: ignoredReason,
+      });
+      return new Response(`Event ignored: ${ignoredReason}`, { status: 200 });
+    }
+
+    // the delivery id isn't signed, so replays are detected by the run
+    const run = payload.workflow_run;
+    const repository = this.#config.findRepository(
+      payload.repository.owner.login,
+      payload.repository.name,
+    )!;
+    const stored = this.#db?.getRun(repository, run.id);
+    if (stored != null && stored.runAttempt >= run.run_attempt) {
+      this.#deliveries.add({
+        id,
+        event,
+        status: "duplicate",
+        detail: `Run ${run.id} attempt ${run.run_attempt} was already ingested`,
+      });
+      return new Response("Run already ingested", { status: 200 });
+    }
+    const processed = this.#queue.enqueue(repository, run.id, run.run_attempt);
+    if (processed == null) {
+      this.#deliveries.add({
+        id,
+        event,
+        status: "duplicate",
+        detail: `Run ${run.id} attempt ${run.run_attempt} was already queued`,
+      });
+      return new Response("Run already queued", { status: 200 });
+    }
+
+    const delivery = this.#deliveries.add({
+      id,
+      event,
+      status: "queued",
+      detail: `Run ${run.id} attempt ${run.run_attempt}`,
+    });
+    processed.then((detail) => {
+      this.#logger.log(`Processed run ${run.id}: ${detail}`);
+      delivery.status = "completed";
+      delivery.detail = `Run ${run.id}: ${detail}`;
+    }, (error) => {
+      // the error is logged by the queue
+      delivery.status = "failed";
+      delivery.detail = `Run ${run.id}: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+    });
+    this.#logger.log(`Queued run ${run.id} from delivery ${id}`);
+    return new Response("Run queued", { status: 202 });
+  }
+
+  #getIgnoredReason(payload: WorkflowRunEvent): string | undefined {
+    if (payload.action !== "completed") {
+      return `Action ${payload.action}`;
+    }
+    const { owner, name } = payload.repository;
+    if (this.#config.findRepository(owner.login, name) == null) {
+      return `Repository ${owner.login}/${name} not configured`;
+    }
+    const run = payload.workflow_run;
+    const fileName = run.path.split("/").pop();
+    const isConfigured = this.#config.workflows.some((workflow) =>
+      workflow === fileName || workflow === run.workflow_id.toString()
+    );
+    if (!isConfigured) {
+      return `Workflow ${run.path} not configured`;
+    }
+    return undefined;
+  }
+}
+
+export default define.page<typeof handler>(
+  function WebhookDeliveriesPage({ data }) {
+    const { deliveries } = data;
+
+    return (
+      <div class="container mx-auto px-4 py-8 max-w-5xl">
+        <h1 class="text-3xl font-bold mb-2">Webhook Deliveries</h1>
+        <p class="text-gray-600 mb-6">
+          The {deliveries.length}{" "}
+          most recent deliveries since the server started.
+        </p>
+        <div class="bg-white rounded-lg shadow divide-y divide-gray-200">
+          {deliveries.length === 0
+            ? (
+              <div class="p-8 text-center text-gray-600">
+                No deliveries received yet.
+              </div>
+            )
+            : deliveries.map((delivery) => (
+              <div
+                key={`${delivery.id}-${delivery.receivedAt.getTime()}`}
+                class="px-4 py-3 flex items-center justify-between gap-4 text-sm"
+              >
+                <div class="flex-1 min-w-0">
+                  <div class="font-mono text-gray-900">{delivery.id}</div>
+                  <div class="text-xs text-gray-500">
+                    {formatDate(delivery.receivedAt.toISOString())} ·{" "}
+                    {delivery.event} · {delivery.detail}
+                  </div>
+                </div>
+                <DeliveryStatusBadge status={delivery.status} />
+              </div>
+            ))}
+        </div>
+      </div>
+    );
+  },
+);
+
+function DeliveryStatusBadge(
+  { status }: { status: WebhookDelivery["status"] },
+) {
+  const colors = {
+    completed: "bg-green-100 text-green-800",
+    queued: "bg-blue-100 text-blue-800",
+    ignored: "bg-gray-100 text-gray-800",
+    duplicate: "bg-gray-100 text-gray-800",
+    failed: "bg-red-100 text-red-800",
+    rejected: "bg-red-100 text-red-800",
+  };
+  return (
+    <span class={`${colors[status]} px-2 py-1 rounded text-xs font-semibold`}>
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,200 @@
+// deno-lint-ignore-file no-console
+/**
+ * Compares the time and peak memory of parsing a large test results
+ * artifact with the streaming parser and with the previous approach of
+ * decompressing and decoding the whole file before `JSON.parse`.
+ *
+ * ```
+ * deno task bench:parser [--tests <count>] [--runs <count>]
+ * ```
+ *
+ * Each parse runs in its own process so the peak resident memory
+ * (`VmHWM` on Linux) only includes that parse.
+ */
+import {
+  BlobReader,
+  BlobWriter,
+  configure,
+  type FileEntry,
+  TextReader,
+  ZipReader,
+  ZipWriter,
+} from "@zip-js/zip-js";
+import { ZipArtifactParser } from "../lib/artifact-parser.ts";
+import type { RecordedTestResult } from "../lib/test-results-downloader.ts";
+import { validateRecordedTests } from "../lib/test-results-validation.ts";
+
+const FIXTURES_DIR = ".cache/bench";
+const DEFAULT_TESTS = 100_000;
+const DEFAULT_RUNS = 3;
+const MODES = ["baseline", "buffered", "streaming"] as const;
+type Mode = typeof MODES[number];
+
+interface ChildResult {
+  ms: number;
+  peakRssMb: number;
+  tests: number;
+}
+
+// avoid timing the startup of the decompression workers
+configure({ useWebWorkers: false });
+
+/** The parser before streaming, kept to compare against. */
+async function parseBuffered(blob: Blob) {
+  const zipReader = new ZipReader(new BlobReader(blob));
+  const entries = await zipReader.getEntries();
+  const entry = entries.find((entry) =>
+    !entry.directory && entry.filename.endsWith(".json")
+  ) as FileEntry;
+  const fileBlob = await entry.getData(new BlobWriter());
+  const fileData = new Uint8Array(await fileBlob.arrayBuffer());
+  await zipReader.close();
+  const data = JSON.parse(new TextDecoder().decode(fileData));
+  return validateRecordedTests(data.tests).tests;
+}
+
+async function runChild(mode: Mode, path: string): Promise<ChildResult> {
+  const blob = new Blob([await Deno.readFile(path)]);
+  const start = performance.now();
+  let tests: RecordedTestResult[] = [];
+  if (mode === "buffered") {
+    tests = await parseBuffered(blob);
+  } else if (mode === "streaming") {
+    tests = (await new ZipArtifactParser().parse(
+      "test-results-bench.json",
+      blob,
+    )).tests;
+  }
+  return {
+    ms: performance.now() - start,
+    peakRssMb: getPeakRssMb(),
+    tests: tests.length,
+  };
+}
+
+function getPeakRssMb() {
+  try {
+    const status = Deno.readTextFileSync("/proc/self/status");
+    const match = /^VmHWM:\s+(\d+) kB$/m.exec(status);
+    if (match != null) {
+      return parseInt(match[1], 10) / 1024;
+    }
+  } catch {
+    // not Linux
+  }
+  // only the current size is available elsewhere
+  return Deno.memoryUsage().rss / 1024 / 1024;
+}
+
+async function createFixture(testCount: number) {
+  const path = `${FIXTURES_DIR}/test-results-bench-${testCount}.json.zip`;
+  try {
+    await Deno.stat(path);
+    return path;
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+  }
+
+  const tests: RecordedTestResult[] = [];
+  for (let i = 0; i < testCount; i++) {
+    const path = `tests/unit/module_${i % 500}_test.ts`;
+    const test: RecordedTestResult = {
+      name: `module ${i % 500} handles case number ${i} correctly`,
+      path,
+      duration: (i * 7919) % 5000,
+    };
+    if (i % 50 === 0) {
+      test.failed = true;
+    }
+    if (i % 97 === 0) {
+      test.flakyCount = 1;
+    }
+    if (i % 10 === 0) {
+      test.subTests = Array.from({ length: 5 }, (_, step) => ({
+        name: `step ${step}`,
+        path,
+        duration: (i + step) % 300,
+      }));
+    }
+    tests.push(test);
+  }
+  const blobWriter = new BlobWriter();
+  const zipWriter = new ZipWriter(blobWriter);
+  await zipWriter.add(
+    "test-results-bench.json",
+    new TextReader(JSON.stringify({ tests })),
+  );
+  await zipWriter.close();
+  const zip = await blobWriter.getData();
+
+  await Deno.mkdir(FIXTURES_DIR, { recursive: true });
+  await Deno.writeFile(path, new Uint8Array(await zip.arrayBuffer()));
+  return path;
+}
+
+async function spawnChild(mode: Mode, path: string): Promise<ChildResult> {
+  const output = await new Deno.Command(Deno.execPath(), {
+    args: [
+      "run",
+      `--allow-read=${FIXTURES_DIR},/proc/self/status`,
+      import.meta.filename!,
+      "--child",
+      mode,
+      path,
+    ],
+    stderr: "inherit",
+  }).output();
+  if (!output.success) {
+    throw new Error(`Benchmark of ${mode} failed`);
+  }
+  return JSON.parse(new TextDecoder().decode(output.stdout));
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function getOption(name: string, defaultValue: number) {
+  const index = Deno.args.indexOf(`--${name}`);
+  const value = index === -1 ? NaN : parseInt(Deno.args[index + 1], 10);
+  return isNaN(value) ? defaultValue : value;
+}
+
+async function main() {
+  if (Deno.args[0] === "--child") {
+    const result = await runChild(Deno.args[1] as Mode, Deno.args[2]);
+    console.log(JSON.stringify(result));
+    return;
+  }
+
+  const testCount = getOption("tests", DEFAULT_TESTS);
+  const runs = getOption("runs", DEFAULT_RUNS);
+  const path = await createFixture(testCount);
+  const { size } = await Deno.stat(path);
+  console.log(
+    `${testCount} tests, ${(size / 1024 / 1024).toFixed(1)} MB zipped, ` +
+      `median of ${runs} runs`,
+  );
+
+  const rows = [];
+  for (const mode of MODES) {
+    const results: ChildResult[] = [];
+    for (let i = 0; i < runs; i++) {
+      results.push(await spawnChild(mode, path));
+    }
+    rows.push({
+      parser: mode,
+      "time (ms)": Math.round(median(results.map((result) => result.ms))),
+      "peak rss (MB)": Math.round(
+        median(results.map((result) => result.peakRssMb)),
+      ),
+      tests: results[0].tests,
+    });
+  }
+  console.table(rows);
+}
+
+await main();
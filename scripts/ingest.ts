@@ -0,0 +1,120 @@
+// deno-lint-ignore-file no-console
+/**
+ * Stores test results in the history database.
+ *
+ * ```
+ * deno task ingest <owner>/<repo> run <run-id> [--force]
+ * deno task ingest <owner>/<repo> backfill [--workflow <file>] [--branch <name>] [--max-runs <count>] [--force]
+ * ```
+ */
+import { appStore, createRequestStore } from "../services.ts";
+
+const USAGE = `Usage:
+  deno task ingest <owner>/<repo> run <run-id> [--force]
+  deno task ingest <owner>/<repo> backfill [--workflow <file>] [--branch <name>] [--max-runs <count>] [--force]`;
+const DEFAULT_MAX_RUNS = 100;
+
+interface IngestArgs {
+  repository: string;
+  command: string;
+  positional: string[];
+  options: Map<string, string | true>;
+}
+
+function parseArgs(args: string[]): IngestArgs | undefined {
+  const positional: string[] = [];
+  const options = new Map<string, string | true>();
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--force") {
+      options.set("force", true);
+    } else if (arg.startsWith("--")) {
+      const value = args[++i];
+      if (value == null) {
+        return undefined;
+      }
+      options.set(arg.slice(2), value);
+    } else {
+      positional.push(arg);
+    }
+  }
+  const [repository, command, ...rest] = positional;
+  if (repository == null || command == null) {
+    return undefined;
+  }
+  return { repository, command, positional: rest, options };
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(Deno.args);
+  if (args == null) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const config = appStore.get("config");
+  const [owner, name] = args.repository.split("/");
+  const repository = owner != null && name != null
+    ? config.findRepository(owner, name)
+    : undefined;
+  if (repository == null) {
+    console.error(`Repository not configured: ${args.repository}`);
+    return 1;
+  }
+
+  const controller = new AbortController();
+  using store = createRequestStore(repository, controller.signal);
+  const ingester = store.get("runIngester");
+  if (ingester == null) {
+    console.error("Set HISTORY_DATABASE_PATH to enable the history database.");
+    return 1;
+  }
+  const force = args.options.get("force") === true;
+
+  if (args.command === "run") {
+    const runId = parseInt(args.positional[0], 10);
+    if (isNaN(runId)) {
+      console.error(USAGE);
+      return 1;
+    }
+    const result = await ingester.ingestRun(runId, { force });
+    console.log(`Run ${runId}: ${result.status} (${result.testCount} tests)`);
+    return result.status === "not_found" ? 1 : 0;
+  } else if (args.command === "backfill") {
+    const workflow = config.findWorkflow(getStringOption(args, "workflow"));
+    if (workflow == null) {
+      console.error("Workflow not configured");
+      return 1;
+    }
+    const maxRuns = parseInt(
+      getStringOption(args, "max-runs") ?? DEFAULT_MAX_RUNS.toString(),
+      10,
+    );
+    if (isNaN(maxRuns) || maxRuns < 1) {
+      console.error("Invalid value for --max-runs");
+      return 1;
+    }
+    const results = await ingester.backfill(workflow, {
+      branch: getStringOption(args, "branch"),
+      maxRuns,
+      force,
+    });
+    const ingested = results.filter((result) => result.status === "ingested");
+    console.log(
+      `Ingested ${ingested.length} of ${results.length} runs of ${workflow}`,
+    );
+    return 0;
+  } else {
+    console.error(USAGE);
+    return 1;
+  }
+}
+
+function getStringOption(args: IngestArgs, name: string) {
+  const value = args.options.get(name);
+  return typeof value === "string" ? value : undefined;
+}
+
+if (import.meta.main) {
+  Deno.exit(await main());
+}
@@ -0,0 +1,293 @@
+import { defineStore } from "@david/service-store";
+import {
+  LruTestResultArtifactStore,
+  RealTestResultsDownloader,
+  type TestResultArtifactStore,
+  type TestResultsDownloader,
+} from "./lib/test-results-downloader.ts";
+import { RealRunsFetcher, type RunsFetcher } from "./lib/runs-fetcher.ts";
+import {
+  type GitHubApiClient,
+  RealGitHubApiClient,
+} from "./lib/github-api-client.ts";
+import { ConfigProvider, type Repository } from "./lib/config.ts";
+import { ConsoleLogger, LoggerFactory } from "./lib/logger.ts";
+import { RateLimitTracker } from "./lib/rate-limit.ts";
+import {
+  GitHubAppTokenProvider,
+  StaticTokenProvider,
+  type TokenProvider,
+} from "./lib/github-auth.ts";
+import {
+  INSIGHTS_RUN_COUNT,
+  type InsightsData,
+  InsightsPageController,
+} from "./routes/[owner]/[repo]/insights.tsx";
+import { HomePageController } from "./routes/[owner]/[repo]/index.tsx";
+import { RunPageController } from "./routes/[owner]/[repo]/results/[runId].tsx";
+import { TestHistoryController } from "./routes/[owner]/[repo]/history.tsx";
+import { AttemptComparisonController } from "./routes/[owner]/[repo]/results/[runId]/compare.tsx";
+import { type FileFetcher, RealFileFetcher } from "./lib/file-fetcher.ts";
+import { CachingFileFetcher } from "./lib/caching-file-fetcher.ts";
+import { FileSystemTestResultArtifactStore } from "./lib/file-system-artifact-store.ts";
+import { RetryingFileFetcher } from "./lib/retrying-file-fetcher.ts";
+import {
+  RecordingFileFetcher,
+  ReplayFileFetcher,
+} from "./lib/recording-file-fetcher.ts";
+import {
+  type HistoryDatabase,
+  SqliteHistoryDatabase,
+} from "./lib/history-database.ts";
+import { HistoryTestResultsDownloader } from "./lib/history-test-results-downloader.ts";
+import { RunIngester } from "./lib/run-ingester.ts";
+import { InsightsCache } from "./lib/insights-cache.ts";
+import { FailureBlocksCache } from "./lib/failure-blocks-cache.ts";
+import { RunPrefetcher } from "./lib/run-prefetcher.ts";
+import { RunIngestionQueue } from "./lib/run-ingestion-queue.ts";
+import { WebhookDeliveryLog } from "./lib/webhooks.ts";
+import {
+  LocalResultsDirectory,
+  UploadedResultsStore,
+} from "./lib/local-results.ts";
+import { LocalResultsController } from "./routes/local/index.tsx";
+import { GitHubWebhookController } from "./routes/webhooks/github.tsx";
+import {
+  type ArtifactParser,
+  ZipArtifactParser,
+} from "./lib/artifact-parser.ts";
+
+export type AppStore = ReturnType<typeof createRequestStore>;
+
+// deno's CI uploads about 15 test result artifacts per run
+const ARTIFACTS_PER_RUN = 20;
+
+// services that live for the duration of the application
+export const appStore = defineStore()
+  .add("config", () => new ConfigProvider())
+  .add("loggerFactory", () => new LoggerFactory())
+  .add("artifactParser", (): ArtifactParser => {
+    return new ZipArtifactParser();
+  })
+  .add("testResultArtifactStore", (store): TestResultArtifactStore => {
+    const config = store.get("config");
+    const storeConfig = config.artifactStore;
+    return storeConfig.kind === "filesystem"
+      ? new FileSystemTestResultArtifactStore(
+        storeConfig,
+        new ConsoleLogger(FileSystemTestResultArtifactStore.name),
+        config.artifactCachePolicy,
+      )
+      : new LruTestResultArtifactStore(
+        config.artifactCachePolicy,
+        // fits the artifacts the prefetcher downloads for the insights
+        // so they don't evict each other before the insights read them
+        config.prefetchIntervalMs == null ? undefined : Math.max(
+          200,
+          config.repositories.length * config.workflows.length *
+            INSIGHTS_RUN_COUNT * ARTIFACTS_PER_RUN,
+        ),
+      );
+  })
+  .add("historyDatabase", (store): HistoryDatabase | undefined => {
+    const path = store.get("config").historyDatabasePath;
+    return path == null ? undefined : new SqliteHistoryDatabase(path);
+  })
+  .add("webhookDeliveries", () => new WebhookDeliveryLog())
+  .add("runIngestionQueue", () => {
+    return new RunIngestionQueue(
+      new ConsoleLogger(RunIngestionQueue.name),
+      async (repository, runId) => {
+        // not tied to the webhook request, which finishes first
+        using store = createRequestStore(
+          repository,
+          new AbortController().signal,
+        );
+        const ingester = store.get("runIngester");
+        if (ingester != null) {
+          const result = await ingester.ingestRun(runId);
+          return `${result.status} (${result.testCount} tests)`;
+        }
+        const { artifacts } = await store.get("artifactDownloader")
+          .downloadForRunId(runId);
+        return `downloaded ${artifacts.length} artifacts`;
+      },
+    );
+  })
+  .add("insightsCache", (store) => {
+    // only precomputed when they're kept up to date by the prefetcher
+    return store.get("config").prefetchIntervalMs == null
+      ? undefined
+      : new InsightsCache<InsightsData>();
+  })
+  .add("runPrefetcher", (store) => {
+    const config = store.get("config");
+    return new RunPrefetcher(
+      new ConsoleLogger(RunPrefetcher.name),
+      config.repositories,
+      config.workflows,
+      async (repository, workflow) => {
+        using store = createRequestStore(
+          repository,
+          new AbortController().signal,
+        );
+        return await store.get("controller.insights").refresh(workflow);
+      },
+    );
+  })
+  .add("uploadedResults", () => new UploadedResultsStore())
+  .add("failureBlocksCache", () => new FailureBlocksCache())
+  .add("fileFetcher", (store): FileFetcher => {
+    const config = store.get("config");
+    const fetcherConfig = config.fileFetcher;
+    if (fetcherConfig.kind === "replay") {
+      return new CachingFileFetcher(new ReplayFileFetcher(fetcherConfig.dir));
+    }
+    const fetcher = new RetryingFileFetcher(
+      new RealFileFetcher(),
+      config.retryPolicy,
+    );
+    return new CachingFileFetcher(
+      fetcherConfig.kind === "record"
+        ? new RecordingFileFetcher(
+          fetcher,
+          fetcherConfig.dir,
+          new ConsoleLogger(RecordingFileFetcher.name),
+        )
+        : fetcher,
+    );
+  })
+  .add("rateLimitTracker", () => new RateLimitTracker())
+  .add("tokenProvider", (store): TokenProvider => {
+    const config = store.get("config");
+    const githubApp = config.githubApp;
+    if (config.fileFetcher.kind === "replay") {
+      // replayed responses don't need a token, which would need the network
+      return new StaticTokenProvider(undefined);
+    }
+    return githubApp != null
+      ? new GitHubAppTokenProvider(githubApp)
+      : new StaticTokenProvider(config.githubToken);
+  })
+  .finalize();
+
+export function createRequestStore(
+  repository: Repository,
+  signal: AbortSignal,
+) {
+  // services that live for the duration of a request
+  return appStore.createChild()
+    .add("repository", () => repository)
+    // aborts when the client disconnects
+    .add("signal", () => signal)
+    .add("githubClient", (store): GitHubApiClient => {
+      return new RealGitHubApiClient(
+        store.get("fileFetcher"),
+        store.get("tokenProvider"),
+        store.get("repository"),
+        store.get("rateLimitTracker"),
+        store.get("signal"),
+      );
+    })
+    // outlives the request so shared artifact downloads aren't cancelled
+    .add("artifactGithubClient", (store): GitHubApiClient => {
+      return new RealGitHubApiClient(
+        store.get("fileFetcher"),
+        store.get("tokenProvider"),
+        store.get("repository"),
+        store.get("rateLimitTracker"),
+      );
+    })
+    // downloads from GitHub even when the run is in the history database
+    .add("artifactDownloader", (store): TestResultsDownloader => {
+      return new RealTestResultsDownloader(
+        store.get("artifactParser"),
+        store.get("artifactGithubClient"),
+        store.get("testResultArtifactStore"),
+        store.get("config").artifactNamePattern,
+        store.get("signal"),
+      );
+    })
+    .add("testResultsDownloader", (store): TestResultsDownloader => {
+      const db = store.get("historyDatabase");
+      const downloader = store.get("artifactDownloader");
+      return db == null ? downloader : new HistoryTestResultsDownloader(
+        downloader,
+        db,
+        store.get("repository"),
+      );
+    })
+    .add("logger", (store) => {
+      return store.get("loggerFactory").getRequestLogger();
+    })
+    .add("runIngester", (store): RunIngester | undefined => {
+      const db = store.get("historyDatabase");
+      return db == null ? undefined : new RunIngester(
+        store.get("logger"),
+        store.get("githubClient"),
+        store.get("artifactDownloader"),
+        db,
+        store.get("repository"),
+      );
+    })
+    .add("runsFetcher", (store): RunsFetcher => {
+      return new RealRunsFetcher(store.get("githubClient"));
+    })
+    .add("controller.homePage", (store) => {
+      return new HomePageController(
+        store.get("runsFetcher"),
+        store.get("config").repositories,
+        store.get("config").workflows,
+      );
+    })
+    .add("controller.insights", (store) => {
+      return new InsightsPageController(
+        store.get("logger"),
+        store.get("githubClient"),
+        store.get("testResultsDownloader"),
+        store.get("config").workflows,
+        store.get("repository"),
+        store.get("insightsCache"),
+      );
+    })
+    .add("controller.runPage", (store) => {
+      return new RunPageController(
+        store.get("logger"),
+        store.get("githubClient"),
+        store.get("testResultsDownloader"),
+        store.get("failureBlocksCache"),
+      );
+    })
+    .add("controller.testHistory", (store) => {
+      return new TestHistoryController(
+        store.get("historyDatabase"),
+        store.get("repository"),
+      );
+    })
+    .add("controller.githubWebhook", (store) => {
+      return new GitHubWebhookController(
+        store.get("logger"),
+        store.get("config"),
+        store.get("webhookDeliveries"),
+        store.get("historyDatabase"),
+        store.get("runIngestionQueue"),
+      );
+    })
+    .add("controller.localResults", (store) => {
+      const dir = store.get("config").localResultsDir;
+      return new LocalResultsController(
+        dir == null
+          ? undefined
+          : new LocalResultsDirectory(dir, store.get("artifactParser")),
+        store.get("uploadedResults"),
+        store.get("artifactParser"),
+      );
+    })
+    .add("controller.attemptComparison", (store) => {
+      return new AttemptComparisonController(
+        store.get("githubClient"),
+        store.get("testResultsDownloader"),
+      );
+    })
+    .finalize();
+}